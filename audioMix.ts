@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Timeline } from "./timeline";
+
+// Music level under a voiceover, relative to the bed's own volume.
+export const MUSIC_DUCK_RATIO = 0.25;
+export const DUCK_RAMP_SECONDS = 0.2;
+// Voiceovers closer together than this keep the music ducked in between instead of pumping.
+const MIN_UNDUCKED_GAP_SECONDS = 1;
+
+export async function decodeAudio(context: BaseAudioContext, blob: Blob): Promise<AudioBuffer> {
+    return context.decodeAudioData(await blob.arrayBuffer());
+}
+
+function duckWindows(timeline: Timeline): [number, number][] {
+    const windows: [number, number][] = [];
+    for (const scene of timeline.scenes) {
+        if (scene.voDuration <= 0) continue;
+        const window: [number, number] = [scene.start, scene.start + scene.voDuration];
+        const previous = windows[windows.length - 1];
+        if (previous && window[0] - previous[1] < MIN_UNDUCKED_GAP_SECONDS) {
+            previous[1] = window[1];
+        } else {
+            windows.push(window);
+        }
+    }
+    return windows;
+}
+
+/**
+ * Plays `music` on a loop into `destination` from `startTime` (in context time), ducked under every
+ * voiceover in `timeline` and faded out over the `endCardSeconds` that follow the last scene.
+ */
+export function scheduleMusicBed(
+    context: BaseAudioContext,
+    music: AudioBuffer,
+    destination: AudioNode,
+    options: { timeline: Timeline; startTime: number; volume: number; endCardSeconds: number },
+): AudioBufferSourceNode {
+    const { timeline, startTime, volume, endCardSeconds } = options;
+    const ducked = volume * MUSIC_DUCK_RATIO;
+
+    const gain = context.createGain();
+    gain.connect(destination);
+    gain.gain.setValueAtTime(volume, startTime);
+    for (const [from, to] of duckWindows(timeline)) {
+        gain.gain.setValueAtTime(volume, startTime + Math.max(0, from - DUCK_RAMP_SECONDS));
+        gain.gain.linearRampToValueAtTime(ducked, startTime + from);
+        gain.gain.setValueAtTime(ducked, startTime + to);
+        gain.gain.linearRampToValueAtTime(volume, startTime + to + DUCK_RAMP_SECONDS);
+    }
+
+    const fadeStart = startTime + timeline.duration;
+    const end = fadeStart + Math.max(endCardSeconds, DUCK_RAMP_SECONDS);
+    gain.gain.setValueAtTime(volume, fadeStart);
+    gain.gain.linearRampToValueAtTime(0, end);
+
+    const source = context.createBufferSource();
+    source.buffer = music;
+    source.loop = true;
+    source.connect(gain);
+    source.start(startTime);
+    source.stop(end);
+    return source;
+}
+
+/**
+ * Mixes the whole ad's audio offline: every voiceover at its scene's start plus the ducked music bed,
+ * with `endCardSeconds` of tail for the end card.
+ */
+export async function renderAdAudio(options: {
+    timeline: Timeline;
+    voiceovers: Blob[];
+    music: { blob: Blob; volume: number } | null;
+    endCardSeconds: number;
+    sampleRate: number;
+}): Promise<AudioBuffer> {
+    const { timeline, voiceovers, music, endCardSeconds, sampleRate } = options;
+    const length = Math.max(1, Math.ceil((timeline.duration + endCardSeconds) * sampleRate));
+    const context = new OfflineAudioContext(2, length, sampleRate);
+
+    const voiceoverBuffers = await Promise.all(voiceovers.map(blob => decodeAudio(context, blob)));
+    voiceoverBuffers.forEach((buffer, i) => {
+        const source = context.createBufferSource();
+        source.buffer = buffer;
+        source.connect(context.destination);
+        source.start(timeline.scenes[i].start);
+    });
+    if (music) {
+        scheduleMusicBed(context, await decodeAudio(context, music.blob), context.destination, {
+            timeline,
+            startTime: 0,
+            volume: music.volume,
+            endCardSeconds,
+        });
+    }
+    return context.startRendering();
+}
@@ -0,0 +1,188 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Rect } from "./formats";
+import type { BrandKit, BrandRules, Corner, TextStyle } from "./types";
+
+// Reproduces the look the app had before brand kits existed.
+export const DEFAULT_BRAND_KIT: BrandKit = {
+    id: 'default',
+    name: 'Default',
+    primaryColor: '#ffffff',
+    secondaryColor: '#000000',
+    accentColor: '#ffd54a',
+    font: null,
+    textStyle: 'outline',
+    logoPosition: 'top-right',
+    logoScale: 0.2,
+    watermarkPosition: 'bottom-left',
+    watermarkOpacity: 0.5,
+    endCardColor: '#000000',
+    tagline: '',
+    rules: { bannedWords: [], claims: [], disclaimers: [], competitors: [] },
+};
+
+const TEXT_STYLES: TextStyle[] = ['outline', 'box', 'shadow'];
+const CORNERS: Corner[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right'];
+const RULE_LISTS: (keyof BrandRules)[] = ['bannedWords', 'claims', 'disclaimers', 'competitors'];
+// The colour inputs only take #rrggbb.
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+// Reports a field of the wrong kind; returns the importer's own error so its message reaches the user.
+type FieldError = (message: string) => Error;
+
+function readKitText(data: Record<string, unknown>, field: 'name' | 'tagline', fail: FieldError): string {
+    const value = data[field] ?? DEFAULT_BRAND_KIT[field];
+    if (typeof value !== 'string') throw fail(`"brandKit.${field}" must be text.`);
+    return value;
+}
+
+function readKitColor(data: Record<string, unknown>, field: 'primaryColor' | 'secondaryColor' | 'accentColor' | 'endCardColor', fail: FieldError): string {
+    const value = data[field] ?? DEFAULT_BRAND_KIT[field];
+    if (typeof value !== 'string' || !HEX_COLOR.test(value)) throw fail(`"brandKit.${field}" must be a colour such as #ff8800.`);
+    return value;
+}
+
+function readKitChoice<T extends string>(data: Record<string, unknown>, field: 'textStyle' | 'logoPosition' | 'watermarkPosition', choices: T[], fail: FieldError): T {
+    const value = data[field] ?? DEFAULT_BRAND_KIT[field];
+    if (!choices.includes(value as T)) throw fail(`"brandKit.${field}" must be one of ${choices.join(', ')}.`);
+    return value as T;
+}
+
+// Clamped to the range of the slider that edits it.
+function readKitNumber(data: Record<string, unknown>, field: 'logoScale' | 'watermarkOpacity', min: number, max: number, fail: FieldError): number {
+    const value = data[field] ?? DEFAULT_BRAND_KIT[field];
+    if (typeof value !== 'number' || !Number.isFinite(value)) throw fail(`"brandKit.${field}" must be a number.`);
+    return Math.min(max, Math.max(min, value));
+}
+
+function readKitRules(raw: unknown, fail: FieldError): BrandRules {
+    if (raw === undefined) return { ...DEFAULT_BRAND_KIT.rules };
+    if (!raw || typeof raw !== 'object') throw fail('"brandKit.rules" must be an object.');
+    const data = raw as Record<string, unknown>;
+    const rules = { ...DEFAULT_BRAND_KIT.rules };
+    for (const list of RULE_LISTS) {
+        const value = data[list] ?? [];
+        if (!Array.isArray(value) || !value.every(entry => typeof entry === 'string')) {
+            throw fail(`"brandKit.rules.${list}" must be a list of text.`);
+        }
+        rules[list] = value;
+    }
+    return rules;
+}
+
+/**
+ * Rebuilds a brand kit read from an imported file one field at a time, leaving out anything that isn't
+ * part of a kit. Missing fields get the default kit's value and numbers are clamped to their sliders'
+ * ranges; a field of the wrong kind throws the error `fail` makes. The id and font are the caller's.
+ */
+export function parseBrandKit(data: Record<string, unknown>, id: string, font: BrandKit['font'], fail: FieldError): BrandKit {
+    return {
+        id,
+        name: readKitText(data, 'name', fail),
+        primaryColor: readKitColor(data, 'primaryColor', fail),
+        secondaryColor: readKitColor(data, 'secondaryColor', fail),
+        accentColor: readKitColor(data, 'accentColor', fail),
+        font,
+        textStyle: readKitChoice(data, 'textStyle', TEXT_STYLES, fail),
+        logoPosition: readKitChoice(data, 'logoPosition', CORNERS, fail),
+        logoScale: readKitNumber(data, 'logoScale', 0.1, 0.4, fail),
+        watermarkPosition: readKitChoice(data, 'watermarkPosition', CORNERS, fail),
+        watermarkOpacity: readKitNumber(data, 'watermarkOpacity', 0.1, 1, fail),
+        endCardColor: readKitColor(data, 'endCardColor', fail),
+        tagline: readKitText(data, 'tagline', fail),
+        rules: readKitRules(data.rules, fail),
+    };
+}
+
+// Everything the renderers need: the kit plus the CSS font-family its font was registered under.
+export type BrandStyle = {
+    kit: BrandKit;
+    fontFamily: string;
+};
+
+const loadedFonts = new WeakMap<Blob, Promise<string>>();
+let fontCount = 0;
+
+/**
+ * Registers the kit's uploaded font with the document (once per file) and resolves to a CSS
+ * font-family list that falls back to the app's body font.
+ */
+export async function resolveBrandStyle(kit: BrandKit): Promise<BrandStyle> {
+    const bodyFont = getComputedStyle(document.body).fontFamily;
+    if (!kit.font) return { kit, fontFamily: bodyFont };
+
+    let family = loadedFonts.get(kit.font.blob);
+    if (!family) {
+        const blob = kit.font.blob;
+        family = (async () => {
+            const name = `BrandFont${++fontCount}`;
+            const face = await new FontFace(name, await blob.arrayBuffer()).load();
+            document.fonts.add(face);
+            return name;
+        })();
+        loadedFonts.set(blob, family);
+        family.catch(() => loadedFonts.delete(blob));
+    }
+    return { kit, fontFamily: `"${await family}", ${bodyFont}` };
+}
+
+export function withOpacity(hexColor: string, opacity: number): string {
+    const value = parseInt(hexColor.slice(1), 16);
+    return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${opacity})`;
+}
+
+// Top-left position for a `width` x `height` box pinned to `corner` of `area`.
+export function cornerPosition(area: Rect, width: number, height: number, corner: Corner): { x: number; y: number } {
+    return {
+        x: corner.endsWith('left') ? area.x : area.x + area.width - width,
+        y: corner.startsWith('top') ? area.y : area.y + area.height - height,
+    };
+}
+
+/**
+ * Draws centred on-screen text in the kit's text style: an outline, a solid box behind it or a soft
+ * shadow, all in the secondary colour. Only the first `visibleLength` characters are drawn, in the
+ * place they take in the whole line, so text being typed out doesn't shift as it grows.
+ */
+export function drawStyledText(
+    ctx: CanvasRenderingContext2D,
+    text: string,
+    x: number,
+    y: number,
+    maxWidth: number,
+    fontSize: number,
+    brand: BrandStyle,
+    visibleLength = text.length,
+) {
+    const { kit } = brand;
+    const visible = text.slice(0, visibleLength);
+    if (!visible) return;
+    ctx.save();
+    ctx.font = `bold ${fontSize}px ${brand.fontFamily}`;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    const fullWidth = ctx.measureText(text).width;
+    const squeeze = Math.min(1, maxWidth / fullWidth);
+    const left = x - fullWidth * squeeze / 2;
+    const width = ctx.measureText(visible).width * squeeze;
+    if (kit.textStyle === 'box') {
+        const padding = fontSize * 0.4;
+        ctx.fillStyle = kit.secondaryColor;
+        ctx.fillRect(left - padding, y - fontSize * 0.75, width + padding * 2, fontSize * 1.5);
+    } else if (kit.textStyle === 'shadow') {
+        ctx.shadowColor = kit.secondaryColor;
+        ctx.shadowBlur = fontSize * 0.3;
+        ctx.shadowOffsetX = ctx.shadowOffsetY = fontSize * 0.05;
+    } else {
+        ctx.strokeStyle = withOpacity(kit.secondaryColor, 0.8);
+        ctx.lineWidth = fontSize * 0.25;
+        ctx.lineJoin = 'round';
+        ctx.strokeText(visible, left, y, width);
+    }
+    ctx.fillStyle = kit.primaryColor;
+    ctx.fillText(visible, left, y, width);
+    ctx.restore();
+}
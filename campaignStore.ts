@@ -0,0 +1,224 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Storyboard } from "./storyboard";
+import type {
+    BrandKit, CampaignInputs, CampaignTemplate, CampaignVariant, EndCard, LegacyPostCopy, MusicBed, PostCopy, ReferenceImage, SceneAsset,
+} from "./types";
+import type { ConcurrencyLimits, PriceTable, UsageRecord } from "./usage";
+import type { StoryboardVariant } from "./variants";
+
+const DB_NAME = 'automace';
+const DB_VERSION = 5;
+const CAMPAIGN_STORE = 'campaigns';
+const MUSIC_STORE = 'music';
+const BRAND_KIT_STORE = 'brandKits';
+const TEMPLATE_STORE = 'templates';
+const USAGE_STORE = 'usage';
+// App-wide preferences, stored under their own keys.
+const SETTINGS_STORE = 'settings';
+const PRICE_TABLE_KEY = 'priceTable';
+const CONCURRENCY_KEY = 'concurrency';
+
+// Blob URLs only live as long as the tab, so audio and video are stored as the blobs themselves
+// and the URLs (top-level and per variant) are dropped before saving.
+export type StoredSceneAsset = Omit<SceneAsset, 'audioUrl' | 'videoUrl'>;
+
+export type StoredCampaign = {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    inputs: CampaignInputs;
+    logo: { base64: string; mimeType: string } | null;
+    storyboard: Storyboard;
+    sceneAssets: StoredSceneAsset[];
+    // Campaigns saved before per-platform copy have a single caption instead.
+    postCopy: PostCopy | LegacyPostCopy | null;
+    // Missing on campaigns saved before background music existed.
+    music?: MusicBed | null;
+    // Missing on campaigns saved before brand kits existed.
+    brandKit?: BrandKit;
+    // Missing on campaigns saved before the end card editor existed.
+    endCard?: EndCard;
+    // Set when the storyboard came from comparing variants; every variant is kept so another can be picked later.
+    variant?: CampaignVariant | null;
+    variants?: StoryboardVariant[];
+    // Keys of pre-flight check issues the user waived; missing on campaigns saved before the check existed.
+    complianceWaivers?: string[];
+    // Spending limit in USD that "Generate All" warns about; null or missing for no limit.
+    budget?: number | null;
+    // Missing on campaigns saved before reference photos existed.
+    references?: ReferenceImage[];
+};
+
+// Music beds the user has uploaded, offered for every campaign.
+export type MusicTrack = {
+    id: string;
+    name: string;
+    blob: Blob;
+    addedAt: number;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(CAMPAIGN_STORE)) {
+                    db.createObjectStore(CAMPAIGN_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(MUSIC_STORE)) {
+                    db.createObjectStore(MUSIC_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(BRAND_KIT_STORE)) {
+                    db.createObjectStore(BRAND_KIT_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(TEMPLATE_STORE)) {
+                    db.createObjectStore(TEMPLATE_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(USAGE_STORE)) {
+                    db.createObjectStore(USAGE_STORE, { keyPath: 'id' }).createIndex('campaignId', 'campaignId');
+                }
+                if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
+                    db.createObjectStore(SETTINGS_STORE);
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+async function withStore<T>(
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<T>,
+    storeName = CAMPAIGN_STORE,
+): Promise<T> {
+    const db = await openDatabase();
+    const transaction = db.transaction(storeName, mode);
+    return requestToPromise(action(transaction.objectStore(storeName)));
+}
+
+export function createCampaignId(): string {
+    return crypto.randomUUID();
+}
+
+export async function listCampaigns(): Promise<StoredCampaign[]> {
+    const campaigns = await withStore('readonly', store => store.getAll() as IDBRequest<StoredCampaign[]>);
+    return campaigns.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function loadCampaign(id: string): Promise<StoredCampaign | undefined> {
+    return withStore('readonly', store => store.get(id) as IDBRequest<StoredCampaign | undefined>);
+}
+
+export async function saveCampaign(campaign: StoredCampaign): Promise<void> {
+    await withStore('readwrite', store => store.put(campaign));
+}
+
+// The campaign's usage records go with it.
+export async function deleteCampaign(id: string): Promise<void> {
+    await withStore('readwrite', store => store.delete(id));
+    const usageIds = await withStore('readonly', store => store.index('campaignId').getAllKeys(id), USAGE_STORE);
+    await Promise.all(usageIds.map(usageId => withStore('readwrite', store => store.delete(usageId), USAGE_STORE)));
+}
+
+export async function duplicateCampaign(id: string): Promise<StoredCampaign> {
+    const original = await loadCampaign(id);
+    if (!original) {
+        throw new Error(`Campaign ${id} was not found.`);
+    }
+    const now = Date.now();
+    const copy: StoredCampaign = {
+        ...original,
+        id: createCampaignId(),
+        name: `${original.name} (copy)`,
+        createdAt: now,
+        updatedAt: now,
+    };
+    await saveCampaign(copy);
+    return copy;
+}
+
+export async function listMusicTracks(): Promise<MusicTrack[]> {
+    const tracks = await withStore('readonly', store => store.getAll() as IDBRequest<MusicTrack[]>, MUSIC_STORE);
+    return tracks.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function saveMusicTrack(track: MusicTrack): Promise<void> {
+    await withStore('readwrite', store => store.put(track), MUSIC_STORE);
+}
+
+export async function deleteMusicTrack(id: string): Promise<void> {
+    await withStore('readwrite', store => store.delete(id), MUSIC_STORE);
+}
+
+export async function listBrandKits(): Promise<BrandKit[]> {
+    const kits = await withStore('readonly', store => store.getAll() as IDBRequest<BrandKit[]>, BRAND_KIT_STORE);
+    return kits.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function saveBrandKit(kit: BrandKit): Promise<void> {
+    await withStore('readwrite', store => store.put(kit), BRAND_KIT_STORE);
+}
+
+export async function deleteBrandKit(id: string): Promise<void> {
+    await withStore('readwrite', store => store.delete(id), BRAND_KIT_STORE);
+}
+
+export async function listTemplates(): Promise<CampaignTemplate[]> {
+    const templates = await withStore('readonly', store => store.getAll() as IDBRequest<CampaignTemplate[]>, TEMPLATE_STORE);
+    return templates.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function saveTemplate(template: CampaignTemplate): Promise<void> {
+    await withStore('readwrite', store => store.put(template), TEMPLATE_STORE);
+}
+
+export async function deleteTemplate(id: string): Promise<void> {
+    await withStore('readwrite', store => store.delete(id), TEMPLATE_STORE);
+}
+
+export async function listUsage(campaignId: string): Promise<UsageRecord[]> {
+    const records = await withStore('readonly', store => store.index('campaignId').getAll(campaignId) as IDBRequest<UsageRecord[]>, USAGE_STORE);
+    return records.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export async function saveUsageRecord(record: UsageRecord): Promise<void> {
+    await withStore('readwrite', store => store.put(record), USAGE_STORE);
+}
+
+// Prices the user has edited; they override the defaults model by model.
+export async function loadPriceTable(): Promise<PriceTable> {
+    return await withStore('readonly', store => store.get(PRICE_TABLE_KEY) as IDBRequest<PriceTable | undefined>, SETTINGS_STORE) ?? {};
+}
+
+export async function savePriceTable(prices: PriceTable): Promise<void> {
+    await withStore('readwrite', store => store.put(prices, PRICE_TABLE_KEY), SETTINGS_STORE);
+}
+
+// Parallel job limits the user has changed; the rest keep their defaults.
+export async function loadConcurrencyLimits(): Promise<Partial<ConcurrencyLimits>> {
+    return await withStore('readonly', store => store.get(CONCURRENCY_KEY) as IDBRequest<Partial<ConcurrencyLimits> | undefined>, SETTINGS_STORE) ?? {};
+}
+
+export async function saveConcurrencyLimits(limits: ConcurrencyLimits): Promise<void> {
+    await withStore('readwrite', store => store.put(limits, CONCURRENCY_KEY), SETTINGS_STORE);
+}
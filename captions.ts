@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Timeline } from "./timeline";
+import type { WordTiming } from "./types";
+
+// Short cues read better on small vertical screens than full sentences.
+export const MAX_CAPTION_WORDS = 4;
+// How long a cue stays up after its last word when nothing follows straight away.
+const CAPTION_HOLD_SECONDS = 0.4;
+// A pause this long between words starts a new cue.
+const CAPTION_BREAK_GAP_SECONDS = 0.6;
+
+// A caption line, timed against the whole ad. Word timings are absolute too.
+export type CaptionCue = {
+    start: number;
+    end: number;
+    words: WordTiming[];
+};
+
+export type ActiveCaption = {
+    cue: CaptionCue;
+    // Index of the word being spoken, or -1 between words.
+    wordIndex: number;
+};
+
+/**
+ * Spreads the words of `text` over `duration` seconds in proportion to their length, with a little
+ * extra time after punctuation. Used when the speech provider didn't report timings.
+ */
+export function estimateWordTimings(text: string, duration: number): WordTiming[] {
+    const words = text.split(/\s+/).filter(Boolean);
+    const weights = words.map(word => word.length + 1 + (/[.,!?;:]$/.test(word) ? 3 : 0));
+    const secondsPerWeight = duration / Math.max(1, weights.reduce((sum, weight) => sum + weight, 0));
+    let time = 0;
+    return words.map((word, i) => {
+        const start = time;
+        time += weights[i] * secondsPerWeight;
+        return { word, start, end: time };
+    });
+}
+
+/**
+ * Groups each scene's words into short cues placed on the ad timeline. `sceneWords[i]` are the
+ * word timings of scene i's voiceover, relative to the start of that clip.
+ */
+export function buildCaptionCues(timeline: Timeline, sceneWords: WordTiming[][]): CaptionCue[] {
+    const cues: CaptionCue[] = [];
+    timeline.scenes.forEach((scene, i) => {
+        const sceneEnd = scene.start + scene.duration;
+        const sceneCues: CaptionCue[] = [];
+        let current: WordTiming[] = [];
+        const flush = () => {
+            if (current.length === 0) return;
+            sceneCues.push({ start: current[0].start, end: current[current.length - 1].end, words: current });
+            current = [];
+        };
+
+        for (const timing of sceneWords[i] ?? []) {
+            const word = { ...timing, start: scene.start + timing.start, end: Math.min(sceneEnd, scene.start + timing.end) };
+            const previous = current[current.length - 1];
+            if (previous && word.start - previous.end > CAPTION_BREAK_GAP_SECONDS) flush();
+            current.push(word);
+            if (current.length >= MAX_CAPTION_WORDS || /[.,!?;:]$/.test(word.word)) flush();
+        }
+        flush();
+
+        sceneCues.forEach((cue, c) => {
+            const nextStart = sceneCues[c + 1]?.start ?? sceneEnd;
+            cue.end = Math.max(cue.end, Math.min(nextStart, cue.end + CAPTION_HOLD_SECONDS));
+        });
+        cues.push(...sceneCues);
+    });
+    return cues;
+}
+
+export function captionAt(cues: CaptionCue[], time: number): ActiveCaption | null {
+    const cue = cues.find(c => time >= c.start && time < c.end);
+    if (!cue) return null;
+    return { cue, wordIndex: cue.words.findIndex(w => time >= w.start && time < w.end) };
+}
+
+function formatTimestamp(seconds: number, separator: ',' | '.'): string {
+    const ms = Math.round(seconds * 1000);
+    const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+    const hours = Math.floor(ms / 3600000);
+    const minutes = Math.floor(ms / 60000) % 60;
+    const secs = Math.floor(ms / 1000) % 60;
+    return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+function cueText(cue: CaptionCue): string {
+    return cue.words.map(w => w.word).join(' ');
+}
+
+export function toSrt(cues: CaptionCue[]): string {
+    return cues
+        .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cueText(cue)}\n`)
+        .join('\n');
+}
+
+export function toVtt(cues: CaptionCue[]): string {
+    const body = cues
+        .map(cue => `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cueText(cue)}\n`)
+        .join('\n');
+    return `WEBVTT\n\n${body}`;
+}
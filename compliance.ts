@@ -0,0 +1,216 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { PLATFORMS } from "./postCopy";
+import type { Storyboard } from "./storyboard";
+import type { BrandRules, EndCard, Platform, PostCopy } from "./types";
+
+export type IssueKind = 'safety' | 'banned' | 'claim' | 'disclaimer' | 'competitor';
+
+export const ISSUE_LABELS: Record<IssueKind, string> = {
+    safety: 'Safety filter',
+    banned: 'Banned word',
+    claim: 'Unsubstantiated claim',
+    disclaimer: 'Missing disclaimer',
+    competitor: 'Competitor mention',
+};
+
+// Where a piece of campaign text lives, so a suggested rewrite can be written back to it.
+export type CopyRef =
+    | { source: 'scene'; index: number; field: 'visual_prompt' | 'voiceover' | 'on_screen_text' }
+    | { source: 'post'; platform: Platform; field: 'title' | 'caption' | 'longCaption' }
+    | { source: 'post'; platform: Platform; field: 'hooks' | 'ctas' | 'hashtags'; item: number }
+    | { source: 'endCard'; field: 'cta' | 'offer' };
+
+export type CopyField = {
+    ref: CopyRef;
+    // e.g. "Scene 2 · Voiceover" or "TikTok · Caption".
+    label: string;
+    text: string;
+};
+
+export type ComplianceIssue = {
+    // Issues with the same key are waived together: approving a claim approves it everywhere in the campaign.
+    key: string;
+    kind: IssueKind;
+    ref: CopyRef;
+    label: string;
+    term: string;
+    message: string;
+    // The field's whole text with the suggested fix applied; null when there's no automatic fix.
+    fixedText: string | null;
+};
+
+type Rule = { term: string; rewrite: string | null };
+
+// Words that commonly get image and video prompts blocked, grouped by the filter they trip.
+const SAFETY_TRIGGERS: { reason: string; rules: string[] }[] = [
+    { reason: 'violence', rules: ['gun', 'guns', 'rifle', 'pistol', 'weapon', 'weapons', 'knife', 'blood', 'bloody', 'gore', 'explosion => burst', 'explode => burst', 'war'] },
+    { reason: 'sexual content', rules: ['nude', 'naked', 'sexy => stylish', 'seductive => confident', 'lingerie', 'topless'] },
+    // Veo only animates adults by default, so scenes with minors fail at the video step.
+    { reason: 'minors', rules: ['child => person', 'children => people', 'kid => person', 'kids => people', 'baby', 'babies', 'toddler', 'teen => young adult', 'teenager => young adult', 'teenagers => young adults'] },
+    { reason: 'real people', rules: ['celebrity => model', 'celebrities => models', 'famous'] },
+    { reason: 'drugs', rules: ['drug', 'drugs', 'cigarette', 'cigarettes', 'vape', 'vaping'] },
+];
+
+// Claims ad platforms and regulators expect proof for; brands add their own in the kit's rules.
+const BUILT_IN_CLAIMS = [
+    'guaranteed => designed', 'guarantee', '100%', '#1', 'number one', 'best in the world', 'clinically proven => tested',
+    'scientifically proven => tested', 'doctor recommended', 'cure', 'cures', 'risk-free', 'no side effects',
+    'instant results => fast results', 'miracle => remarkable', 'permanent', 'FDA approved',
+];
+
+const SCENE_FIELD_LABELS = { visual_prompt: 'Visual prompt', voiceover: 'Voiceover', on_screen_text: 'On-screen text' };
+
+// "term => rewrite"; an empty rewrite removes the term.
+export function parseRule(line: string): Rule | null {
+    const [term, ...rewrite] = line.split('=>');
+    if (!term.trim()) return null;
+    return { term: term.trim(), rewrite: rewrite.length ? rewrite.join('=>').trim() : null };
+}
+
+function parseRules(lines: string[]): Rule[] {
+    const rules = new Map<string, Rule>();
+    for (const line of lines) {
+        const rule = parseRule(line);
+        // The first rule for a term wins, so a brand's own rewrite overrides a built-in one.
+        if (rule && !rules.has(rule.term.toLowerCase())) rules.set(rule.term.toLowerCase(), rule);
+    }
+    return [...rules.values()];
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Whole words or phrases only, so "war" doesn't match "warm"; works for terms like "#1" and "100%" too.
+function termPattern(term: string): RegExp {
+    return new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`, 'giu');
+}
+
+function findTerm(text: string, term: string): string | null {
+    return termPattern(term).exec(text)?.[0] ?? null;
+}
+
+// Replaces every occurrence, keeping a capital first letter where the original had one. An empty rewrite
+// removes the term.
+export function rewriteTerm(text: string, term: string, rewrite: string): string {
+    const rewritten = text.replace(termPattern(term), match =>
+        rewrite && match[0] !== match[0].toLowerCase() ? rewrite[0].toUpperCase() + rewrite.slice(1) : rewrite
+    );
+    if (rewrite) return rewritten;
+    // Tidy up after a removal: doubled spaces, a space left before punctuation and hashtags left empty.
+    return rewritten.replace(/(^|\s)#(?=\s|$)/g, '$1').replace(/ {2,}/g, ' ').replace(/ ([.,!?;:])/g, '$1').trim();
+}
+
+function sceneFields(storyboard: Storyboard): CopyField[] {
+    return storyboard.scenes.flatMap((scene, index) =>
+        (['visual_prompt', 'voiceover', 'on_screen_text'] as const).map(field => ({
+            ref: { source: 'scene' as const, index, field },
+            label: `Scene ${index + 1} · ${SCENE_FIELD_LABELS[field]}`,
+            text: scene[field] ?? '',
+        }))
+    );
+}
+
+function endCardFields(endCard: EndCard): CopyField[] {
+    if (!endCard.duration) return [];
+    return [
+        { ref: { source: 'endCard', field: 'cta' }, label: 'End card · Call to action', text: endCard.cta },
+        { ref: { source: 'endCard', field: 'offer' }, label: 'End card · Offer', text: endCard.offer },
+    ];
+}
+
+function postFields(postCopy: PostCopy | null): CopyField[] {
+    return (postCopy?.platforms ?? []).flatMap(copy => {
+        const platform = copy.platform;
+        const label = PLATFORMS[platform].label;
+        const list = (field: 'hooks' | 'ctas' | 'hashtags', name: string) => copy[field].map((text, item) => ({
+            ref: { source: 'post' as const, platform, field, item },
+            label: `${label} · ${name} ${item + 1}`,
+            text,
+        }));
+        return [
+            ...(copy.title ? [{ ref: { source: 'post' as const, platform, field: 'title' as const }, label: `${label} · Title`, text: copy.title }] : []),
+            { ref: { source: 'post' as const, platform, field: 'caption' as const }, label: `${label} · Caption`, text: copy.caption },
+            { ref: { source: 'post' as const, platform, field: 'longCaption' as const }, label: `${label} · Long caption`, text: copy.longCaption },
+            ...list('hooks', 'Hook'),
+            ...list('ctas', 'Call to action'),
+            ...list('hashtags', 'Hashtag'),
+        ];
+    });
+}
+
+/**
+ * Every piece of text in the campaign a check applies to: the storyboard's scenes, the end card (when it's
+ * shown) and each platform's post copy.
+ */
+export function campaignCopy(storyboard: Storyboard, endCard: EndCard, postCopy: PostCopy | null): CopyField[] {
+    return [...sceneFields(storyboard), ...endCardFields(endCard), ...postFields(postCopy)];
+}
+
+function termIssues(fields: CopyField[], kind: IssueKind, rules: Rule[], message: (term: string) => string): ComplianceIssue[] {
+    return fields.flatMap(field => rules.flatMap(rule => {
+        const match = findTerm(field.text, rule.term);
+        if (!match) return [];
+        return [{
+            key: `${kind}:${rule.term.toLowerCase()}`,
+            kind,
+            ref: field.ref,
+            label: field.label,
+            term: match,
+            message: `${message(match)}${rule.rewrite ? ` Try "${rule.rewrite}".` : rule.rewrite === '' ? ' Remove it.' : ''}`,
+            fixedText: rule.rewrite === null ? null : rewriteTerm(field.text, rule.term, rule.rewrite),
+        }];
+    }));
+}
+
+// A disclaimer has to appear somewhere in the ad itself, and in each post's caption and long caption.
+function disclaimerIssues(fields: CopyField[], disclaimers: string[]): ComplianceIssue[] {
+    const issues: ComplianceIssue[] = [];
+    const adText = fields
+        .filter(field => field.ref.source === 'endCard' || (field.ref.source === 'scene' && field.ref.field !== 'visual_prompt'))
+        .map(field => field.text)
+        .join('\n');
+    const offer = fields.find(field => field.ref.source === 'endCard' && field.ref.field === 'offer');
+    const captions = fields.filter(field => field.ref.source === 'post' && (field.ref.field === 'caption' || field.ref.field === 'longCaption'));
+
+    for (const disclaimer of disclaimers.map(line => line.trim()).filter(Boolean)) {
+        const missing = (text: string) => !text.toLowerCase().includes(disclaimer.toLowerCase());
+        const issue = (field: Pick<CopyField, 'ref' | 'label'>, message: string, fixedText: string | null): ComplianceIssue => ({
+            key: `disclaimer:${disclaimer.toLowerCase()}`, kind: 'disclaimer', ref: field.ref, label: field.label, term: disclaimer, message, fixedText,
+        });
+        if (missing(adText)) {
+            issues.push(offer
+                ? issue(offer, `The ad doesn't say "${disclaimer}". Add it to the end card's offer line.`, [offer.text, disclaimer].filter(Boolean).join(' '))
+                : issue({ ref: { source: 'scene', index: 0, field: 'on_screen_text' }, label: 'Ad' }, `The ad doesn't say "${disclaimer}". Add it to a scene's voiceover or on-screen text.`, null));
+        }
+        for (const field of captions) {
+            if (field.text && missing(field.text)) {
+                issues.push(issue(field, `Missing "${disclaimer}".`, `${field.text}\n\n${disclaimer}`));
+            }
+        }
+    }
+    return issues;
+}
+
+/**
+ * Pre-flight check of the campaign's text against the built-in safety and claim lists and the brand's
+ * own rules. Safety triggers are only looked for in visual prompts, the one text the image and video
+ * models see; claims and disclaimers only in text viewers see.
+ */
+export function checkCompliance(fields: CopyField[], rules: BrandRules): ComplianceIssue[] {
+    const prompts = fields.filter(field => field.ref.source === 'scene' && field.ref.field === 'visual_prompt');
+    const viewerCopy = fields.filter(field => !prompts.includes(field));
+    return [
+        ...SAFETY_TRIGGERS.flatMap(({ reason, rules: triggers }) => termIssues(prompts, 'safety', parseRules(triggers), term =>
+            `"${term}" (${reason}) may get the scene blocked by the image or video model's safety filters.`)),
+        ...termIssues(fields, 'banned', parseRules(rules.bannedWords), term => `"${term}" is on the brand's banned list.`),
+        ...termIssues(viewerCopy, 'claim', parseRules([...rules.claims, ...BUILT_IN_CLAIMS]), term =>
+            `"${term}" is a claim that needs substantiation before it can run.`),
+        ...termIssues(fields, 'competitor', parseRules(rules.competitors), term => `Mentions the competitor "${term}".`),
+        ...disclaimerIssues(fields, rules.disclaimers),
+    ];
+}
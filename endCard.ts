@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import qrcode from "qrcode-generator";
+import { END_CARD_SECONDS } from "./timeline";
+import type { EndCard } from "./types";
+
+// Modules of white border QR readers expect around the code.
+const QR_QUIET_ZONE = 4;
+
+export const DEFAULT_END_CARD: EndCard = {
+    cta: '',
+    url: '',
+    showQrCode: true,
+    offer: '',
+    background: 'brand',
+    backgroundColor: '#000000',
+    backgroundImage: null,
+    duration: END_CARD_SECONDS,
+};
+
+/**
+ * Accepts bare domains ("example.com/offer") as well as full URLs. Resolves to an ASCII-only href, or
+ * null when the text can't be a web address.
+ */
+export function normalizeUrl(url: string): string | null {
+    const trimmed = url.trim();
+    if (!trimmed) return null;
+    try {
+        const parsed = new URL(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+        return parsed.hostname.includes('.') ? parsed.href : null;
+    } catch {
+        return null;
+    }
+}
+
+// The URL as printed on the card: no scheme and no trailing slash.
+export function displayUrl(href: string): string {
+    return href.replace(/^https?:\/\//, '').replace(/\/$/, '');
+}
+
+// How long the end card runs; it's left out entirely when it would be an empty screen.
+export function endCardSeconds(endCard: EndCard, hasLogo: boolean, tagline: string): number {
+    const hasContent = hasLogo || !!(tagline || endCard.cta || endCard.offer || normalizeUrl(endCard.url));
+    return hasContent ? endCard.duration : 0;
+}
+
+/**
+ * Draws a QR code for `text` at one pixel per module, dark on white with its quiet zone. Scale it up
+ * with image smoothing off to keep the modules sharp.
+ */
+export function renderQrCode(text: string): HTMLCanvasElement {
+    const qr = qrcode(0, 'M');
+    qr.addData(text);
+    qr.make();
+    const count = qr.getModuleCount();
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = count + QR_QUIET_ZONE * 2;
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = '#000000';
+    for (let row = 0; row < count; row++) {
+        for (let col = 0; col < count; col++) {
+            if (qr.isDark(row, col)) ctx.fillRect(col + QR_QUIET_ZONE, row + QR_QUIET_ZONE, 1, 1);
+        }
+    }
+    return canvas;
+}
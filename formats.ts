@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { AspectRatio, FocalPoint } from "./types";
+
+// Margins kept clear of platform UI (captions, buttons, profile info), as fractions of the frame.
+type SafeZone = { top: number; right: number; bottom: number; left: number };
+
+export type AdFormat = {
+    ratio: AspectRatio;
+    label: string;
+    width: number;
+    height: number;
+    safeZone: SafeZone;
+};
+
+export const AD_FORMATS: Record<AspectRatio, AdFormat> = {
+    // Reels/TikTok/Shorts cover the top with the header and the bottom fifth with captions and actions.
+    '9:16': { ratio: '9:16', label: 'Vertical (9:16)', width: 1080, height: 1920, safeZone: { top: 0.14, right: 0.1, bottom: 0.2, left: 0.06 } },
+    '1:1': { ratio: '1:1', label: 'Square (1:1)', width: 1080, height: 1080, safeZone: { top: 0.05, right: 0.05, bottom: 0.05, left: 0.05 } },
+    '4:5': { ratio: '4:5', label: 'Portrait (4:5)', width: 1080, height: 1350, safeZone: { top: 0.05, right: 0.05, bottom: 0.08, left: 0.05 } },
+    '16:9': { ratio: '16:9', label: 'Landscape (16:9)', width: 1920, height: 1080, safeZone: { top: 0.05, right: 0.05, bottom: 0.1, left: 0.05 } },
+};
+
+export const CENTER_FOCAL_POINT: FocalPoint = { x: 0.5, y: 0.5 };
+
+export type Rect = { x: number; y: number; width: number; height: number };
+
+export function safeRect(format: AdFormat): Rect {
+    const { width, height, safeZone } = format;
+    const x = width * safeZone.left;
+    const y = height * safeZone.top;
+    return { x, y, width: width * (1 - safeZone.left - safeZone.right), height: height * (1 - safeZone.top - safeZone.bottom) };
+}
+
+/**
+ * Scales a `sourceWidth` x `sourceHeight` frame to cover `width` x `height`, shifting the crop so the
+ * focal point sits as close to the centre as the frame edges allow.
+ */
+export function coverRect(sourceWidth: number, sourceHeight: number, width: number, height: number, focal: FocalPoint): Rect {
+    const scale = Math.max(width / sourceWidth, height / sourceHeight);
+    const drawWidth = sourceWidth * scale;
+    const drawHeight = sourceHeight * scale;
+    const clamp = (value: number, min: number) => Math.min(0, Math.max(min, value));
+    return {
+        x: clamp(width / 2 - focal.x * drawWidth, width - drawWidth),
+        y: clamp(height / 2 - focal.y * drawHeight, height - drawHeight),
+        width: drawWidth,
+        height: drawHeight,
+    };
+}
+
+// Where the ad's overlays go in a format: everything stays inside the safe zone.
+export type OverlayLayout = {
+    safe: Rect;
+    // Baselines (vertical centres) of the on-screen text and the caption line.
+    textY: number;
+    captionY: number;
+    fontSize: number;
+};
+
+export function overlayLayout(format: AdFormat): OverlayLayout {
+    const safe = safeRect(format);
+    // Size text off the shorter side so landscape text isn't tiny and portrait text isn't huge.
+    const fontSize = Math.min(format.width, format.height) * 0.06;
+    const textY = safe.y + safe.height - fontSize;
+    return { safe, textY, captionY: textY - fontSize * 1.8, fontSize };
+}
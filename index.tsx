@@ -3,14 +3,84 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { GoogleGenAI, Modality } from "@google/genai";
-
-const VEO_POLLING_INTERVAL = 10000; // 10 seconds
-const ELEVENLABS_VOICE_ID = '21m00Tcm4TlvDq8ikWAM'; // Default voice: Rachel
+import { Type } from "@google/genai";
+import {
+  MusicTrack, StoredCampaign, StoredSceneAsset, createCampaignId, deleteBrandKit, deleteCampaign, deleteMusicTrack, deleteTemplate,
+  duplicateCampaign, listBrandKits, listCampaigns, listMusicTracks, listTemplates, listUsage, loadCampaign, loadConcurrencyLimits,
+  loadPriceTable, saveBrandKit, saveCampaign, saveConcurrencyLimits, saveMusicTrack, savePriceTable, saveTemplate, saveUsageRecord,
+} from "./campaignStore";
+import { decodeAudio, renderAdAudio, scheduleMusicBed } from "./audioMix";
+import { AUDIO_SAMPLE_RATE, encodeMp4, supportsMp4Export } from "./mp4Export";
+import {
+  BrandStyle, DEFAULT_BRAND_KIT, cornerPosition, drawStyledText, resolveBrandStyle, withOpacity,
+} from "./brandKit";
+import { DEFAULT_END_CARD, displayUrl, endCardSeconds, normalizeUrl, renderQrCode } from "./endCard";
+import { ComplianceIssue, CopyRef, ISSUE_LABELS, campaignCopy, checkCompliance } from "./compliance";
+import {
+  CTA_COUNT, HOOK_COUNT, PLATFORMS, characterCount, defaultPlatforms, platformCopyProblems, platformCopySchema, postText,
+  postCopyMarkdown, readPlatformCopy, upgradePostCopy,
+} from "./postCopy";
+import { AD_FORMATS, AdFormat, CENTER_FOCAL_POINT, OverlayLayout, coverRect, overlayLayout } from "./formats";
+import { ActiveCaption, CaptionCue, buildCaptionCues, captionAt, estimateWordTimings, toSrt, toVtt } from "./captions";
+import {
+  MAX_ON_SCREEN_TEXT_WORDS, Scene, Storyboard, StoryboardValidationError, checkStoryboard, countWords,
+  storyboardResponseSchema,
+} from "./storyboard";
+import {
+  CancelledError, QueueProgress, formatRemaining, runQueue, sleep, throwIfCancelled, withRetry,
+} from "./jobQueue";
+import { InlineImage, PROVIDER_CONFIG, Providers, VideoOperation, Voice, createProviders } from "./providers";
+import { ProjectImportError, exportProject, importProject } from "./projectBundle";
+import { MAX_SCENE_REFERENCES, readReferenceImage, referenceImageUrl, sceneImageRequest } from "./references";
+import { UserMediaError, clampTrim, readUserMedia } from "./userMedia";
+import { DEFAULT_VIDEO_SETTINGS, VIDEO_SETTING_CHOICES, parseSeed, videoOptions } from "./videoSettings";
+import {
+  BUILT_IN_TEMPLATES, MAX_TEMPLATE_SCENES, MIN_TEMPLATE_SCENES, TemplateImportError, exportTemplate, importTemplate,
+  templateFromCampaign, templatePromptSection,
+} from "./templates";
+import {
+  CREATIVE_ANGLES, StoryboardVariant, VariantPick, describeVariant, mergeVariantScenes, trackVariantUrl, variantLabel,
+} from "./variants";
+import {
+  ConcurrencyLimits, DEFAULT_CONCURRENCY, DEFAULT_PRICES, MAX_CONCURRENCY, PRICE_FIELDS, PriceTable, USAGE_LABELS, UsageKind, UsageOutcome, UsageRecord, UsageUnits,
+  estimateRequestCost, formatCost, formatUnits, summarizeUsage, usageCost,
+} from "./usage";
+import {
+  SceneDurations, Timeline, TimelineScene, buildTimeline, clipTimeAt, formatSeconds, measureMediaDuration,
+} from "./timeline";
+import {
+  FrameComposition, FrameLayer, HARD_CUT, NO_TEXT_ANIMATION, TextFrame, animateText, composeFrame, stillImageScale,
+} from "./transitions";
+import type {
+  AspectRatio, BrandKit, BrandRules, CampaignInputs, CampaignTemplate, CampaignVariant, Corner, CreativeAngle, EndCard, FocalPoint, MusicBed, Platform, PlatformCopy, PostCopy, ReferenceImage, SceneAsset, TextAnimation, TransitionKind, UserMedia,
+  PersonGeneration, VideoFit, VideoSettings, VoiceSettings, WordTiming,
+} from "./types";
+
+const MAX_PLAN_ATTEMPTS = 3;
+const MAX_COPY_ATTEMPTS = 3;
+const DEFAULT_MUSIC_VOLUME = 0.4;
+// Darkens end card background images so the text on them stays readable.
+const END_CARD_SCRIM_OPACITY = 0.45;
+// How often a scene that matches the previous scene checks whether that scene's image is done.
+const PREVIOUS_IMAGE_POLL_MS = 1000;
+// How long the export waits for a scene's clip to load before giving up on it.
+const CLIP_LOAD_TIMEOUT_MS = 30_000;
+const AUDITION_TEXT = "Hi there! This is how the voiceover for your ad will sound.";
+const TRANSITION_LABELS: Record<TransitionKind, string> = {
+  cut: 'Cut', crossfade: 'Crossfade', slide: 'Slide', zoom: 'Zoom', dip: 'Dip to color',
+};
+const TEXT_ANIMATION_LABELS: Record<TextAnimation, string> = {
+  none: 'None', fade: 'Fade', pop: 'Pop', typewriter: 'Typewriter', words: 'Word by word',
+};
 
 // --- DOM Elements ---
 const setupView = document.getElementById('setup-view')!;
 const storyboardView = document.getElementById('storyboard-view')!;
+const variantsView = document.getElementById('variants-view')!;
+const variantsContainer = document.getElementById('variants-container')!;
+const mergeVariantsBtn = document.getElementById('merge-variants-btn') as HTMLButtonElement;
+const templateSelect = document.getElementById('template-select') as HTMLSelectElement;
+const templateHint = document.getElementById('template-hint')!;
 const campaignForm = document.getElementById('campaign-form') as HTMLFormElement;
 const generatePlanBtn = document.getElementById('generate-plan-btn') as HTMLButtonElement;
 const storyboardContainer = document.getElementById('storyboard-container')!;
@@ -20,15 +90,63 @@ const generateAllVideosBtn = document.getElementById('generate-all-videos-btn')
 const generatePostCopyBtn = document.getElementById('generate-post-copy-btn') as HTMLButtonElement;
 const postCopyView = document.getElementById('post-copy-view')!;
 const postCopyContent = document.getElementById('post-copy-content')!;
+const postPlatformInputs = document.querySelectorAll<HTMLInputElement>('input[name="post-platform"]');
 const previewBtn = document.getElementById('preview-btn') as HTMLButtonElement;
 const downloadBtn = document.getElementById('download-btn') as HTMLButtonElement;
+const downloadSrtBtn = document.getElementById('download-srt-btn') as HTMLButtonElement;
+const downloadVttBtn = document.getElementById('download-vtt-btn') as HTMLButtonElement;
 const loader = document.getElementById('loader')!;
 const loaderMessage = document.getElementById('loader-message')!;
+const loaderProgress = document.getElementById('loader-progress') as HTMLProgressElement;
+const loaderCancelBtn = document.getElementById('loader-cancel-btn') as HTMLButtonElement;
+const campaignsView = document.getElementById('campaigns-view')!;
+const campaignsList = document.getElementById('campaigns-list')!;
+const backToSetupBtn = document.getElementById('back-to-setup-btn') as HTMLButtonElement;
+const batchProgress = document.getElementById('batch-progress')!;
+const batchProgressBar = document.getElementById('batch-progress-bar') as HTMLProgressElement;
+const batchProgressText = document.getElementById('batch-progress-text')!;
+const cancelBatchBtn = document.getElementById('cancel-batch-btn') as HTMLButtonElement;
+const voiceSelect = document.getElementById('voice-id') as HTMLSelectElement;
+const voiceHint = document.getElementById('voice-hint')!;
+const auditionVoiceBtn = document.getElementById('audition-voice-btn') as HTMLButtonElement;
+const musicTrackSelect = document.getElementById('music-track') as HTMLSelectElement;
+const musicFileInput = document.getElementById('music-file') as HTMLInputElement;
+const musicVolumeInput = document.getElementById('music-volume') as HTMLInputElement;
+const deleteMusicTrackBtn = document.getElementById('delete-music-track-btn') as HTMLButtonElement;
+const endCardOverlay = document.getElementById('end-card-overlay')!;
+const captionOverlay = document.getElementById('caption-overlay')!;
+const brandKitPanel = document.getElementById('brand-kit-panel')!;
+const brandKitSelect = document.getElementById('brand-kit-select') as HTMLSelectElement;
+const brandKitNameInput = document.getElementById('brand-kit-name') as HTMLInputElement;
+const deleteBrandKitBtn = document.getElementById('delete-brand-kit-btn') as HTMLButtonElement;
+const brandFontFileInput = document.getElementById('brand-font-file') as HTMLInputElement;
+const brandFontName = document.getElementById('brand-font-name')!;
+const endCardTagline = document.getElementById('end-card-tagline')!;
+const exportFormatInputs = document.querySelectorAll<HTMLInputElement>('input[name="export-format"]');
+const endCardLogo = document.getElementById('end-card-logo') as HTMLImageElement;
+const endCardPanel = document.getElementById('end-card-panel')!;
+const endCardImageInput = document.getElementById('end-card-image-file') as HTMLInputElement;
+const compliancePanel = document.getElementById('compliance-panel')!;
+const complianceSummary = document.getElementById('compliance-summary')!;
+const complianceIssuesList = document.getElementById('compliance-issues')!;
+const referenceFilesInput = document.getElementById('reference-files') as HTMLInputElement;
+const referenceList = document.getElementById('reference-list')!;
+const usageSummary = document.getElementById('usage-summary')!;
+const usageBudgetInput = document.getElementById('usage-budget') as HTMLInputElement;
+const usageBreakdown = document.getElementById('usage-breakdown')!;
+const priceTable = document.getElementById('price-table')!;
+const concurrencySettings = document.getElementById('concurrency-settings')!;
+const usageLogBody = document.querySelector('#usage-log tbody')!;
 
 // Preview Modal Elements
 const previewModal = document.getElementById('preview-modal')!;
-const sceneVideo = document.getElementById('scene-video') as HTMLVideoElement;
+// Scenes alternate between two players so a transition can show the outgoing and incoming clips together.
+const previewVideos = [
+  document.getElementById('scene-video-a') as HTMLVideoElement,
+  document.getElementById('scene-video-b') as HTMLVideoElement,
+];
 const textOverlay = document.getElementById('text-overlay')!;
+const transitionDip = document.getElementById('transition-dip')!;
 const watermarkOverlay = document.getElementById('watermark-overlay')!;
 const logoOverlay = document.getElementById('logo-overlay') as HTMLImageElement;
 const closePreviewBtn = document.getElementById('close-preview')!;
@@ -36,18 +154,12 @@ const sceneIndicator = document.getElementById('scene-indicator')!;
 const voiceoverAudioPlayer = document.getElementById('voiceover-audio-player') as HTMLAudioElement;
 
 // --- Application State ---
-let ai: GoogleGenAI;
-type SceneAsset = {
-    imageUrl?: string;
-    imageB64?: string;
-    audioUrl?: string;
-    videoUrl?: string;
-    imageStatus: 'ready' | 'generating' | 'complete' | 'failed';
-    voStatus: 'ready' | 'generating' | 'complete' | 'failed';
-    videoStatus: 'ready' | 'generating' | 'complete' | 'failed';
-};
+let providers: Providers;
 
 const state = {
+  campaignId: null as string | null,
+  campaignCreatedAt: 0,
+  inputs: null as CampaignInputs | null,
   logo: {
     base64: null as string | null,
     mimeType: null as string | null,
@@ -55,21 +167,58 @@ const state = {
   },
   watermarkText: '',
   elevenApiKey: null as string | null,
-  storyboard: null as any | null,
+  storyboard: null as Storyboard | null,
   sceneAssets: [] as SceneAsset[],
+  postCopy: null as PostCopy | null,
+  // The variant this campaign's storyboard came from, and every variant it was compared with.
+  variant: null as CampaignVariant | null,
+  variants: [] as StoryboardVariant[],
+  // Scenes ticked in the comparison view, in the order they were ticked.
+  variantPicks: [] as VariantPick[],
+  templates: [] as CampaignTemplate[],
+  // The template picked on the setup form; shapes the next storyboard and brand kit.
+  template: null as CampaignTemplate | null,
+  voices: [] as Voice[],
+  music: null as MusicBed | null,
+  musicTracks: [] as MusicTrack[],
+  brandKit: DEFAULT_BRAND_KIT as BrandKit,
+  brandKits: [] as BrandKit[],
+  endCard: DEFAULT_END_CARD as EndCard,
+  // Object URL for the end card's background image, if it has one.
+  endCardImageUrl: null as string | null,
+  // Product and reference photos the campaign's scenes can send to the image model.
+  references: [] as ReferenceImage[],
+  // Findings of the last pre-flight check, and the keys of those the user waived for this campaign.
+  complianceIssues: [] as ComplianceIssue[],
+  complianceWaivers: [] as string[],
+  // Every request logged for the open campaign, oldest first.
+  usage: [] as UsageRecord[],
+  // Requests made before there was a campaign to charge them to (storyboards, auditions on the setup form).
+  unassignedUsage: [] as UsageRecord[],
+  // USD; null for no limit.
+  budget: null as number | null,
+  prices: DEFAULT_PRICES as PriceTable,
+  // Parallel jobs per provider; app-wide, like the price table.
+  concurrency: DEFAULT_CONCURRENCY as ConcurrencyLimits,
   isGenerating: false,
-  aspectRatio: '9:16' as '9:16' | '1:1',
+  aspectRatio: '9:16' as AspectRatio,
 };
 
 // --- Initialization ---
 document.addEventListener('DOMContentLoaded', () => {
   try {
-    ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
+    providers = createProviders(PROVIDER_CONFIG, {
+      geminiApiKey: process.env.API_KEY,
+      getElevenLabsApiKey: () => state.elevenApiKey,
+    });
   } catch(e) {
     console.error(e);
     showError("Failed to initialize AI. Check API Key.");
     return;
   }
+  if (PROVIDER_CONFIG.mode === 'mock') {
+    document.querySelector('header')!.insertAdjacentHTML('beforeend', `<span class="mock-badge">Offline mock providers: no API calls are made</span>`);
+  }
   
   campaignForm.addEventListener('submit', onGeneratePlan);
   (document.getElementById('logo-file') as HTMLInputElement).addEventListener('change', onLogoChange);
@@ -79,7 +228,68 @@ document.addEventListener('DOMContentLoaded', () => {
   generatePostCopyBtn.addEventListener('click', handleGeneratePostCopy);
   previewBtn.addEventListener('click', showPreview);
   downloadBtn.addEventListener('click', handleDownloadVideo);
+  downloadSrtBtn.addEventListener('click', () => handleDownloadCaptions('srt'));
+  downloadVttBtn.addEventListener('click', () => handleDownloadCaptions('vtt'));
   closePreviewBtn.addEventListener('click', hidePreview);
+  campaignsList.addEventListener('click', onCampaignListClick);
+  storyboardContainer.addEventListener('change', onSceneFieldChange);
+  storyboardContainer.addEventListener('click', onSceneActionClick);
+  storyboardContainer.addEventListener('mousedown', onSceneDragHandleDown);
+  storyboardContainer.addEventListener('dragstart', onSceneDragStart);
+  storyboardContainer.addEventListener('dragover', onSceneDragOver);
+  storyboardContainer.addEventListener('drop', onSceneDrop);
+  storyboardContainer.addEventListener('dragend', onSceneDragEnd);
+  backToSetupBtn.addEventListener('click', onBackToSetup);
+  variantsContainer.addEventListener('change', onVariantSceneToggle);
+  variantsContainer.addEventListener('click', onUseVariantClick);
+  mergeVariantsBtn.addEventListener('click', onMergeVariants);
+  document.getElementById('variants-back-btn')!.addEventListener('click', onVariantsBack);
+  document.getElementById('compare-variants-btn')!.addEventListener('click', onCompareVariants);
+  templateSelect.addEventListener('change', onTemplateSelect);
+  document.getElementById('template-file')!.addEventListener('change', onImportTemplate);
+  document.getElementById('export-template-btn')!.addEventListener('click', onExportTemplate);
+  document.getElementById('delete-template-btn')!.addEventListener('click', onDeleteTemplate);
+  document.getElementById('save-template-btn')!.addEventListener('click', onSaveTemplate);
+  document.getElementById('export-project-btn')!.addEventListener('click', handleExportProject);
+  document.getElementById('project-file')!.addEventListener('change', onImportProject);
+  cancelBatchBtn.addEventListener('click', cancelGenerationBatch);
+  loaderCancelBtn.addEventListener('click', onLoaderCancel);
+  (document.getElementById('eleven-api-key') as HTMLInputElement).addEventListener('change', onElevenApiKeyChange);
+  auditionVoiceBtn.addEventListener('click', onAuditionCampaignVoice);
+  musicTrackSelect.addEventListener('change', onMusicTrackChange);
+  musicFileInput.addEventListener('change', onMusicFileChange);
+  musicVolumeInput.addEventListener('change', onMusicVolumeChange);
+  deleteMusicTrackBtn.addEventListener('click', onDeleteMusicTrack);
+  brandKitPanel.addEventListener('change', onBrandFieldChange);
+  brandKitSelect.addEventListener('change', onBrandKitSelect);
+  brandFontFileInput.addEventListener('change', onBrandFontChange);
+  document.getElementById('save-brand-kit-btn')!.addEventListener('click', onSaveBrandKit);
+  deleteBrandKitBtn.addEventListener('click', onDeleteBrandKit);
+  document.getElementById('clear-brand-font-btn')!.addEventListener('click', onClearBrandFont);
+  endCardPanel.addEventListener('change', onEndCardFieldChange);
+  endCardImageInput.addEventListener('change', onEndCardImageChange);
+  complianceIssuesList.addEventListener('click', onComplianceIssueClick);
+  referenceFilesInput.addEventListener('change', onReferenceFilesChange);
+  referenceList.addEventListener('click', onReferenceListClick);
+  usageBudgetInput.addEventListener('change', onBudgetChange);
+  priceTable.addEventListener('change', onPriceChange);
+  concurrencySettings.addEventListener('change', onConcurrencyChange);
+
+  renderVoiceOptions(voiceSelect, PROVIDER_CONFIG.voiceId);
+  for (const field of ['durationSeconds', 'personGeneration', 'takes'] as const) {
+    document.querySelector(`select[data-video-options="${field}"]`)!.innerHTML = renderLabelOptions(VIDEO_SETTING_CHOICES[field]);
+  }
+  writeCampaignVideoSettings(DEFAULT_VIDEO_SETTINGS);
+  if (!needsElevenLabsKey()) {
+    loadVoices();
+  }
+
+  renderCampaignList();
+  loadMusicLibrary();
+  loadBrandKitLibrary();
+  loadTemplateLibrary();
+  loadPrices();
+  loadConcurrency();
 });
 
 // --- UI Control Functions ---
@@ -97,6 +307,12 @@ function showError(message: string) {
   hideLoader();
 }
 
+// Mock providers synthesize speech locally and the proxy server holds its own key, so the ElevenLabs key
+// is only required for direct live runs.
+function needsElevenLabsKey() {
+  return PROVIDER_CONFIG.mode === 'live';
+}
+
 // --- Event Handlers ---
 async function onLogoChange(event: Event) {
   const input = event.target as HTMLInputElement;
@@ -123,9 +339,9 @@ async function onGeneratePlan(event: Event) {
   const elevenApiKey = formData.get('eleven-api-key') as string;
   state.watermarkText = formData.get('watermark-text') as string;
   state.elevenApiKey = elevenApiKey;
-  state.aspectRatio = formData.get('format') as '9:16' | '1:1';
+  state.aspectRatio = formData.get('format') as AspectRatio;
 
-  if (!productDesc || !targetAudience || !elevenApiKey) {
+  if (!productDesc || !targetAudience || (needsElevenLabsKey() && !elevenApiKey)) {
     showError("Please fill in Product Description, Target Audience, and your ElevenLabs API Key.");
     return;
   }
@@ -134,22 +350,33 @@ async function onGeneratePlan(event: Event) {
       return;
   }
 
+  // One angle just steers the storyboard; two or more are written as variants to compare.
+  const angles = formData.getAll('creative-angle') as CreativeAngle[];
+
   state.isGenerating = true;
   generatePlanBtn.disabled = true;
-  showLoader("🧠 Gemini is crafting your marketing plan...");
+  showLoader(angles.length > 1
+    ? `🧠 Gemini is crafting ${angles.length} storyboard variants...`
+    : "🧠 Gemini is crafting your marketing plan...");
 
   try {
-    const plan = await generateMarketingPlan(formData);
-    state.storyboard = plan.storyboard;
-    state.sceneAssets = new Array(plan.storyboard.scenes.length).fill(null).map(() => ({
-      imageStatus: 'ready', voStatus: 'ready', videoStatus: 'ready'
-    }));
-    renderStoryboard();
-    setupView.classList.add('hidden');
-    storyboardView.classList.remove('hidden');
+    if (angles.length > 1) {
+      state.variants = await generateStoryboardVariants(formData, angles);
+      state.variant = null;
+      state.campaignId = null;
+      showVariants();
+    } else {
+      const plan = await generateMarketingPlan(formData, angles[0]);
+      state.variants = [];
+      startCampaign(plan.storyboard, null);
+    }
   } catch (error) {
     console.error(error);
-    showError("Failed to generate a marketing plan. Please check the console for details.");
+    if (error instanceof StoryboardValidationError) {
+      showError(`Gemini could not produce a valid storyboard after ${MAX_PLAN_ATTEMPTS} attempts:\n- ${error.errors.join('\n- ')}`);
+    } else {
+      showError("Failed to generate a marketing plan. Please check the console for details.");
+    }
   } finally {
     hideLoader();
     state.isGenerating = false;
@@ -157,13 +384,89 @@ async function onGeneratePlan(event: Event) {
   }
 }
 
+// Starts a new campaign from a storyboard; assets, music, post copy and the end card start over.
+function startCampaign(storyboard: Storyboard, variant: CampaignVariant | null) {
+  state.campaignId = createCampaignId();
+  state.campaignCreatedAt = Date.now();
+  state.inputs = readCampaignInputs();
+  state.storyboard = storyboard;
+  state.variant = variant;
+  state.postCopy = null;
+  state.music = null;
+  state.references = [];
+  state.complianceWaivers = [];
+  // Requests made while writing the storyboard are charged to the campaign it starts.
+  state.usage = state.unassignedUsage.map(record => ({ ...record, campaignId: state.campaignId }));
+  state.unassignedUsage = [];
+  state.usage.forEach(saveUsage);
+  state.budget = null;
+  if (state.template?.brandKit) state.brandKit = { ...state.template.brandKit };
+  setEndCard({ ...DEFAULT_END_CARD });
+  revokeSceneAssetUrls();
+  state.sceneAssets = new Array(storyboard.scenes.length).fill(null).map(() => ({
+    id: crypto.randomUUID(), imageStatus: 'ready', voStatus: 'ready', videoStatus: 'ready'
+  }));
+  renderStoryboard();
+  renderReferenceControls();
+  renderVariantBar();
+  renderMusicControls();
+  renderBrandKitControls();
+  resetExportFormats(state.aspectRatio);
+  resetPostCopyPlatforms(state.aspectRatio, null);
+  postCopyView.classList.add('hidden');
+  renderCompliance();
+  renderUsage();
+  checkAssetGenerationStatus();
+  persistCampaign();
+  setupView.classList.add('hidden');
+  variantsView.classList.add('hidden');
+  storyboardView.classList.remove('hidden');
+}
+
 // --- Core AI Functions ---
 
-async function generateMarketingPlan(formData: FormData) {
-  const format = formData.get('format') as string;
-  const platformText = format === '9:16' 
-    ? 'Vertical Video (9:16) for platforms like TikTok/Reels' 
-    : 'Square Video (1:1) for feed posts';
+/**
+ * Writes one storyboard per angle. Variants that fail are left out and the rest are lettered in angle
+ * order; it only fails when none of them could be written.
+ */
+async function generateStoryboardVariants(formData: FormData, angles: CreativeAngle[]): Promise<StoryboardVariant[]> {
+  const storyboards: (Storyboard | null)[] = angles.map(() => null);
+  let firstError: unknown = null;
+  await runQueue(angles, async (angle, index) => {
+    try {
+      storyboards[index] = (await generateMarketingPlan(formData, angle)).storyboard;
+    } catch (error) {
+      console.error(`Failed to generate the ${CREATIVE_ANGLES[angle].label} storyboard:`, error);
+      firstError ??= error;
+    }
+  }, {
+    concurrency: state.concurrency.text,
+    onProgress: ({ completed, total }) => {
+      loaderMessage.textContent = `🧠 Gemini is crafting ${total} storyboard variants (${completed}/${total})...`;
+    },
+  });
+
+  const variants = angles
+    .map((angle, index) => ({ angle, storyboard: storyboards[index] }))
+    .filter((variant): variant is { angle: CreativeAngle; storyboard: Storyboard } => !!variant.storyboard)
+    .map((variant, index) => ({ ...variant, label: variantLabel(index) }));
+  if (!variants.length) throw firstError;
+  if (variants.length < angles.length) {
+    showError(`Only ${variants.length} of ${angles.length} storyboard variants could be generated. Please check the console for details.`);
+  }
+  return variants;
+}
+
+async function generateMarketingPlan(formData: FormData, angle?: CreativeAngle): Promise<{ storyboard: Storyboard }> {
+  const format = formData.get('format') as AspectRatio;
+  const platformText = {
+    '9:16': 'Vertical Video (9:16) for platforms like TikTok/Reels',
+    '1:1': 'Square Video (1:1) for feed posts',
+    '4:5': 'Portrait Video (4:5) for Instagram and Facebook feeds',
+    '16:9': 'Landscape Video (16:9) for YouTube and web placements',
+  }[format];
+  const sceneCount = Number(formData.get('scenes-wanted'));
+  const templateScenes = state.template?.scenes.slice(0, sceneCount) ?? [];
 
   const prompt = `
     You are a world-class marketing creative director. Create a complete social ad campaign as a single, valid JSON object.
@@ -171,37 +474,69 @@ async function generateMarketingPlan(formData: FormData) {
     Product: ${formData.get('product-desc')}
     Primary audience: ${formData.get('target-audience')}
     Ad Format: ${platformText}
-    Total scenes desired: ${formData.get('scenes-wanted')}
+    Total scenes desired: ${sceneCount}${angle ? `\n    Creative angle: ${CREATIVE_ANGLES[angle].label}. ${CREATIVE_ANGLES[angle].brief} Build every scene around this angle.` : ''}
+    Language: write every "voiceover" and "on_screen_text" in ${formData.get('language') || 'English'}, phrased naturally for native speakers. Keep "visual_prompt" in English.
 
-    The JSON object must have a "storyboard" key, which is an object containing a "scenes" array.
-    Each scene in the array must be an object with these exact keys: "id" (1-based index), "voiceover" (a short, punchy line), "on_screen_text" (a few words, max 9), and "visual_prompt" (a rich, descriptive prompt for an image generation model, including camera shots, lighting, and mood, suitable for the chosen ad format).
+    The JSON object must have a "storyboard" key, which is an object containing a "scenes" array with exactly ${sceneCount} scenes.
+    Each scene in the array must be an object with these exact keys: "id" (1-based index), "voiceover" (a short, punchy line), "on_screen_text" (a few words, max ${MAX_ON_SCREEN_TEXT_WORDS}), and "visual_prompt" (a rich, descriptive prompt for an image generation model, including camera shots, lighting, and mood, suitable for the chosen ad format).
+    ${templatePromptSection(templateScenes)}
   `;
-  
-  const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: { responseMimeType: "application/json" }
-  });
 
-  try {
-    return JSON.parse(response.text.trim());
-  } catch (e) {
-    console.error("Failed to parse JSON from model response:", response.text);
-    throw new Error("The model did not return valid JSON. Please try again.");
+  let contents = prompt;
+  let errors: string[] = [];
+  for (let attempt = 1; attempt <= MAX_PLAN_ATTEMPTS; attempt++) {
+    // Storyboards are written before their campaign exists; the request is assigned to it in startCampaign.
+    const { text: responseText } = await withRetry(() => trackUsage('text', providers.text.model, UNASSIGNED_USAGE, () => providers.text.generateJson({
+        prompt: contents,
+        responseSchema: storyboardResponseSchema(sceneCount),
+    }), result => result.usage ?? {}));
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(responseText);
+    } catch (e) {
+      console.error("Failed to parse JSON from model response:", responseText);
+      parsed = null;
+    }
+
+    const check = parsed === null
+      ? { storyboard: null, repairs: [], errors: ['The response was not valid JSON.'] }
+      : checkStoryboard(parsed, sceneCount);
+    if (check.repairs.length) {
+      console.warn("Repaired storyboard from model response:", check.repairs);
+    }
+    if (check.storyboard && !check.errors.length) {
+      check.storyboard.scenes.forEach((scene, index) => {
+        if (templateScenes[index]) scene.role = templateScenes[index].role;
+      });
+      return { storyboard: check.storyboard };
+    }
+
+    // Re-prompt with the specific problems so the model can correct its own output.
+    errors = check.errors;
+    console.warn(`Storyboard attempt ${attempt} was invalid:`, errors);
+    contents = `${prompt}\n\nYour previous response had these problems, fix all of them:\n- ${errors.join('\n- ')}`;
   }
+  throw new StoryboardValidationError(errors);
 }
 
 // --- UI Rendering ---
 
 function renderStoryboard() {
   storyboardContainer.innerHTML = '';
-  state.storyboard.scenes.forEach((scene: any, index: number) => {
+  state.storyboard.scenes.forEach((scene: Scene, index: number) => {
     const card = document.createElement('div');
     card.className = 'scene-card';
     card.id = `scene-card-${index}`;
+    card.dataset.index = String(index);
     card.innerHTML = `
       <div class="scene-card-header">
-        <h3>Scene ${scene.id}</h3>
+        <div class="scene-card-title">
+            <span class="drag-handle" title="Drag to reorder">⠿</span>
+            <h3 class="scene-title"></h3>
+            <span class="scene-role"></span>
+            <span class="scene-cost" title="Estimated spend on this scene"></span>
+        </div>
         <div class="scene-statuses">
             <span id="image-status-${index}" class="scene-status status-ready">Image: Ready</span>
             <span id="video-status-${index}" class="scene-status status-ready">Video: Ready</span>
@@ -211,18 +546,90 @@ function renderStoryboard() {
        <div id="image-container-${index}" class="asset-container">
         <div class="asset-placeholder">Generated image will appear here.</div>
       </div>
+      <div id="user-media-container-${index}" class="asset-container hidden"></div>
       <div class="form-group">
         <label for="prompt-${index}">Visual Prompt</label>
-        <textarea id="prompt-${index}" rows="3" disabled>${scene.visual_prompt}</textarea>
+        <textarea id="prompt-${index}" rows="3" data-field="visual_prompt"></textarea>
       </div>
+      <details class="scene-references">
+        <summary></summary>
+        <div class="reference-picker" data-reference-picker></div>
+        <label class="checkbox-label" data-match-previous-control><input type="checkbox" data-reference-field="matchPrevious"> Match the previous scene's image (people, product and look)</label>
+      </details>
       <div id="video-container-${index}" class="asset-container" style="display:none;">
         <div class="asset-placeholder">Generated video will appear here.</div>
       </div>
+      <details class="voice-override video-override"${scene.video ? ' open' : ''}>
+        <summary></summary>
+        <div class="voice-override-body">
+          <label class="checkbox-label"><input type="checkbox" data-video-field="enabled"> Use different video settings for this scene</label>
+          <div class="voice-override-body" data-video-controls>
+            <div class="video-settings">
+              <label>Length <select data-video-field="durationSeconds">${renderLabelOptions(VIDEO_SETTING_CHOICES.durationSeconds)}</select></label>
+              <label>People <select data-video-field="personGeneration">${renderLabelOptions(VIDEO_SETTING_CHOICES.personGeneration)}</select></label>
+              <label>Takes <select data-video-field="takes">${renderLabelOptions(VIDEO_SETTING_CHOICES.takes)}</select></label>
+              <label>Seed <input type="number" min="0" step="1" placeholder="Random" data-video-field="seed"></label>
+            </div>
+            <input type="text" placeholder="Avoid (optional), e.g. text, cartoon, blurry" data-video-field="negativePrompt">
+          </div>
+        </div>
+      </details>
       <div class="form-group">
         <label for="vo-${index}">Voiceover</label>
-        <input type="text" id="vo-${index}" value="${scene.voiceover}" disabled>
+        <input type="text" id="vo-${index}" data-field="voiceover">
+      </div>
+      <div id="vo-container-${index}" class="vo-container"></div>
+      <details class="voice-override"${scene.voice ? ' open' : ''}>
+        <summary>Voice${scene.voice ? ': custom' : ': campaign default'}</summary>
+        <div class="voice-override-body">
+          <label class="checkbox-label"><input type="checkbox" data-voice-field="enabled"> Use a different voice for this scene</label>
+          <div class="voice-override-body" data-voice-controls>
+            <div class="voice-picker">
+              <select data-voice-field="voiceId"></select>
+              <button class="secondary-btn" data-audition title="Play this scene's voiceover with these settings">▶ Audition</button>
+            </div>
+            <div class="voice-sliders">
+              <label>Stability <input type="range" min="0" max="1" step="0.05" data-voice-field="stability"></label>
+              <label>Similarity <input type="range" min="0" max="1" step="0.05" data-voice-field="similarityBoost"></label>
+              <label>Style <input type="range" min="0" max="1" step="0.05" data-voice-field="style"></label>
+            </div>
+          </div>
+        </div>
+      </details>
+      <div class="form-group">
+        <label for="ost-${index}">On-Screen Text</label>
+        <input type="text" id="ost-${index}" data-field="on_screen_text">
+      </div>
+      <div class="scene-motion">
+        <label>Text in <select data-motion-field="enter">${renderLabelOptions(TEXT_ANIMATION_LABELS)}</select></label>
+        <label>Text out <select data-motion-field="exit">${renderLabelOptions(TEXT_ANIMATION_LABELS)}</select></label>
+        <label data-transition-controls>Transition to next <select data-motion-field="kind">${renderLabelOptions(TRANSITION_LABELS)}</select></label>
+        <input type="color" data-motion-field="color" title="Dip color">
+      </div>
+      <div class="scene-card-actions">
+        <button class="secondary-btn" data-regenerate="image" title="Generate a new image take">↻ Image</button>
+        <button class="secondary-btn" data-regenerate="video" title="Generate a new video take">↻ Video</button>
+        <button class="secondary-btn" data-regenerate="vo" title="Generate a new voiceover take">↻ Voiceover</button>
+        <label class="secondary-btn file-btn" title="Use your own image or video clip for this scene instead of generating one">
+          ⤒ Use My Media
+          <input type="file" accept="image/*,video/*" data-user-media-file hidden>
+        </label>
+      </div>
+      <div class="scene-card-actions">
+        <button class="secondary-btn" data-scene-action="insert">+ Insert Scene After</button>
+        <button class="secondary-btn" data-scene-action="delete">Delete Scene</button>
       </div>
     `;
+    // Values are assigned as properties so quotes or markup in model output can't break the card.
+    (card.querySelector(`#prompt-${index}`) as HTMLTextAreaElement).value = scene.visual_prompt ?? '';
+    (card.querySelector(`#vo-${index}`) as HTMLInputElement).value = scene.voiceover ?? '';
+    (card.querySelector(`#ost-${index}`) as HTMLInputElement).value = scene.on_screen_text ?? '';
+    card.querySelector('.scene-title')!.textContent = `Scene ${scene.id}`;
+    card.querySelector('.scene-role')!.textContent = scene.role ?? '';
+    renderSceneVoiceControls(card, scene);
+    renderSceneVideoControls(card, scene);
+    renderSceneReferenceControls(card, scene, index);
+    renderSceneMotionControls(card, scene, index === state.storyboard.scenes.length - 1);
     storyboardContainer.appendChild(card);
   });
 }
@@ -233,80 +640,440 @@ function updateCardStatus(index: number, type: 'image' | 'vo' | 'video', status:
     statusEl.className = `scene-status status-${status}`;
 }
 
+function rerenderStoryboard() {
+  renderStoryboard();
+  state.sceneAssets.forEach((_, index) => restoreSceneCard(index));
+  renderCompliance();
+  renderUsage();
+}
+
+// --- Storyboard Editing ---
+function isSceneGenerating(index: number) {
+    const asset = state.sceneAssets[index];
+    return asset.imageStatus === 'generating' || asset.videoStatus === 'generating' || asset.voStatus === 'generating';
+}
+
+function isAnySceneGenerating() {
+    return state.sceneAssets.some((_, index) => isSceneGenerating(index));
+}
+
+function isBusy() {
+    return state.isGenerating || activeBatch !== null || isAnySceneGenerating();
+}
+
+// Clears the selected take so it gets regenerated; earlier takes stay in the variant history.
+function resetSceneAsset(index: number, type: 'image' | 'vo' | 'video') {
+    const asset = state.sceneAssets[index];
+    if (type === 'image') {
+        asset.imageUrl = undefined;
+        asset.imageB64 = undefined;
+        asset.imageMimeType = undefined;
+        asset.imageStatus = 'ready';
+        document.getElementById(`image-container-${index}`)!.innerHTML =
+            `<div class="asset-placeholder">Generated image will appear here.</div>`;
+    } else if (type === 'video') {
+        asset.videoUrl = undefined;
+        asset.videoBlob = undefined;
+        asset.videoOperationName = undefined;
+        asset.videoStatus = 'ready';
+        const videoContainer = document.getElementById(`video-container-${index}`)!;
+        videoContainer.style.display = 'none';
+        videoContainer.innerHTML = `<div class="asset-placeholder">Generated video will appear here.</div>`;
+    } else {
+        asset.audioUrl = undefined;
+        asset.audioBlob = undefined;
+        asset.voStatus = 'ready';
+        document.getElementById(`vo-container-${index}`)!.innerHTML = '';
+        document.getElementById(`vo-${index}`)?.parentElement?.querySelector('.error-details')?.remove();
+    }
+    updateCardStatus(index, type, 'ready');
+}
+
+function onSceneFieldChange(event: Event) {
+    if ((event.target as HTMLElement).dataset.voiceField) {
+        onSceneVoiceChange(event);
+        return;
+    }
+    if ((event.target as HTMLElement).dataset.motionField) {
+        onSceneMotionChange(event);
+        return;
+    }
+    if ((event.target as HTMLElement).dataset.videoField) {
+        onSceneVideoSettingChange(event);
+        return;
+    }
+    if ((event.target as HTMLElement).dataset.referenceField) {
+        onSceneReferenceChange(event);
+        return;
+    }
+    if ((event.target as HTMLElement).hasAttribute('data-user-media-file')) {
+        onUserMediaFileChange(event);
+        return;
+    }
+    if ((event.target as HTMLElement).dataset.trimField) {
+        onTrimChange(event);
+        return;
+    }
+    const field = event.target as HTMLInputElement | HTMLTextAreaElement;
+    const key = field.dataset.field as 'visual_prompt' | 'voiceover' | 'on_screen_text' | undefined;
+    const card = field.closest('.scene-card') as HTMLElement | null;
+    if (!key || !card) return;
+
+    const index = Number(card.dataset.index);
+    const scene = state.storyboard.scenes[index];
+    if (isSceneGenerating(index)) {
+        field.value = scene[key];
+        showError("This scene is still generating. Please wait until it finishes before editing it.");
+        return;
+    }
+    if (field.value === scene[key]) return;
+    if (key === 'on_screen_text' && countWords(field.value) > MAX_ON_SCREEN_TEXT_WORDS) {
+        field.value = scene[key];
+        showError(`Scene ${index + 1}: on-screen text is limited to ${MAX_ON_SCREEN_TEXT_WORDS} words.`);
+        return;
+    }
+    updateSceneField(index, key, field.value);
+}
+
+function updateSceneField(index: number, key: 'visual_prompt' | 'voiceover' | 'on_screen_text', value: string) {
+    state.storyboard.scenes[index][key] = value;
+
+    // Only assets derived from the edited field are stale. On-screen text is drawn at playback time.
+    if (key === 'visual_prompt') {
+        resetSceneAsset(index, 'image');
+        resetSceneAsset(index, 'video');
+        // The scene's own media doesn't come from the prompt, so it stays.
+        renderUserMediaAsset(index);
+    } else if (key === 'voiceover') {
+        resetSceneAsset(index, 'vo');
+    }
+    checkAssetGenerationStatus();
+    renderCompliance();
+    persistCampaign();
+}
+
+function renumberScenes() {
+    state.storyboard.scenes.forEach((scene: Scene, index: number) => { scene.id = index + 1; });
+}
+
+function onSceneActionClick(event: Event) {
+    const target = event.target as HTMLElement;
+    const card = target.closest('.scene-card') as HTMLElement | null;
+    if (!card) return;
+
+    const variantButton = target.closest('button[data-variant-kind]') as HTMLButtonElement | null;
+    if (variantButton) {
+        const index = Number(card.dataset.index);
+        if (isSceneGenerating(index)) return;
+        selectVariant(index, variantButton.dataset.variantKind as AssetKind, Number(variantButton.dataset.variantIndex));
+        return;
+    }
+    const focalFrame = target.closest('[data-focal-frame]') as HTMLElement | null;
+    if (focalFrame) {
+        setFocalPoint(Number(card.dataset.index), focalFrame, event as MouseEvent);
+        return;
+    }
+    const auditionButton = target.closest('button[data-audition]') as HTMLButtonElement | null;
+    if (auditionButton) {
+        const index = Number(card.dataset.index);
+        const scene = state.storyboard.scenes[index];
+        auditionVoice(scene.voiceover || AUDITION_TEXT, effectiveVoice(scene), auditionButton, usageScope(state.sceneAssets[index].id));
+        return;
+    }
+    if (target.closest('button[data-remove-user-media]')) {
+        removeUserMedia(Number(card.dataset.index));
+        return;
+    }
+    const regenerateButton = target.closest('button[data-regenerate]') as HTMLButtonElement | null;
+    if (regenerateButton) {
+        regenerateSceneAsset(Number(card.dataset.index), regenerateButton.dataset.regenerate as AssetKind);
+        return;
+    }
+
+    const button = target.closest('button[data-scene-action]') as HTMLButtonElement | null;
+    if (!button) return;
+
+    if (isBusy()) {
+        showError("Scenes can't be added or removed while assets are generating.");
+        return;
+    }
+    const index = Number(card.dataset.index);
+
+    if (button.dataset.sceneAction === 'insert') {
+        state.storyboard.scenes.splice(index + 1, 0, { id: 0, visual_prompt: '', voiceover: '', on_screen_text: '' });
+        state.sceneAssets.splice(index + 1, 0, { id: crypto.randomUUID(), imageStatus: 'ready', voStatus: 'ready', videoStatus: 'ready' });
+    } else if (button.dataset.sceneAction === 'delete') {
+        if (state.storyboard.scenes.length <= 1) {
+            showError("A storyboard needs at least one scene.");
+            return;
+        }
+        if (!confirm(`Delete scene ${index + 1} and its generated assets?`)) return;
+        state.storyboard.scenes.splice(index, 1);
+        const [removed] = state.sceneAssets.splice(index, 1);
+        revokeAssetUrls(removed);
+    }
+
+    renumberScenes();
+    rerenderStoryboard();
+    checkAssetGenerationStatus();
+    persistCampaign();
+}
+
+let dragSourceIndex: number | null = null;
+
+function onSceneDragHandleDown(event: MouseEvent) {
+    const handle = (event.target as HTMLElement).closest('.drag-handle');
+    const card = handle?.closest('.scene-card') as HTMLElement | null;
+    // Cards are only draggable from the handle so text in the fields stays selectable.
+    if (card) card.draggable = true;
+}
+
+function onSceneDragStart(event: DragEvent) {
+    const card = (event.target as HTMLElement).closest('.scene-card') as HTMLElement | null;
+    if (!card || !card.draggable) return;
+    if (isBusy()) {
+        event.preventDefault();
+        showError("Scenes can't be reordered while assets are generating.");
+        return;
+    }
+    dragSourceIndex = Number(card.dataset.index);
+    card.classList.add('dragging');
+    event.dataTransfer?.setData('text/plain', String(dragSourceIndex));
+}
+
+function onSceneDragOver(event: DragEvent) {
+    if (dragSourceIndex === null) return;
+    const card = (event.target as HTMLElement).closest('.scene-card');
+    if (card) event.preventDefault();
+}
+
+function onSceneDrop(event: DragEvent) {
+    const card = (event.target as HTMLElement).closest('.scene-card') as HTMLElement | null;
+    if (dragSourceIndex === null || !card) return;
+    event.preventDefault();
+
+    const from = dragSourceIndex;
+    const to = Number(card.dataset.index);
+    dragSourceIndex = null;
+    if (from === to) return;
+
+    const [scene] = state.storyboard.scenes.splice(from, 1);
+    state.storyboard.scenes.splice(to, 0, scene);
+    const [asset] = state.sceneAssets.splice(from, 1);
+    state.sceneAssets.splice(to, 0, asset);
+
+    renumberScenes();
+    rerenderStoryboard();
+    persistCampaign();
+}
+
+function onSceneDragEnd(event: DragEvent) {
+    const card = (event.target as HTMLElement).closest('.scene-card') as HTMLElement | null;
+    if (card) {
+        card.draggable = false;
+        card.classList.remove('dragging');
+    }
+    dragSourceIndex = null;
+}
+
 // --- Asset Generation ---
 
-async function processSequentially<T>(
-    items: T[],
-    processor: (item: T, index: number) => Promise<void>,
+type GenerateSceneAsset = (scene: Scene, index: number, regenerate: boolean, signal?: AbortSignal) => Promise<void>;
+
+const BATCH_LABELS: Record<AssetKind, string> = { image: 'images', video: 'videos', vo: 'voiceovers' };
+
+let activeBatch: AbortController | null = null;
+
+async function runGenerationBatch(
+    kind: AssetKind,
     button: HTMLButtonElement,
-    buttonText: string
+    needsWork: (asset: SceneAsset) => boolean,
+    generate: GenerateSceneAsset,
 ) {
+    if (activeBatch) {
+        showError("Another batch is still running. Wait for it to finish or cancel it first.");
+        return;
+    }
+    const openIssues = openComplianceIssues().length;
+    if (openIssues) {
+        compliancePanel.scrollIntoView({ behavior: 'smooth' });
+        showError(`The pre-flight check found ${openIssues} open issue(s). Fix or waive them before generating.`);
+        return;
+    }
+    const pending = state.sceneAssets
+        .map((_, index) => index)
+        .filter(index => needsWork(state.sceneAssets[index]));
+    if (!pending.length || !confirmWithinBudget(kind, pending)) return;
+
+    const controller = new AbortController();
+    activeBatch = controller;
+    const buttonHtml = button.innerHTML;
     button.disabled = true;
     button.textContent = 'Generating...';
+    cancelBatchBtn.disabled = false;
+    batchProgress.classList.remove('hidden');
+
+    try {
+        await runQueue(pending, index => generate(state.storyboard!.scenes[index], index, false, controller.signal), {
+            concurrency: state.concurrency[ASSET_PROVIDERS[kind]],
+            signal: controller.signal,
+            onProgress: progress => renderBatchProgress(kind, progress, controller.signal.aborted),
+        });
+    } finally {
+        activeBatch = null;
+        batchProgress.classList.add('hidden');
+        button.innerHTML = buttonHtml;
+        button.disabled = false;
+    }
+}
 
-    for (let i = 0; i < items.length; i++) {
-        await processor(items[i], i);
+function renderBatchProgress(kind: AssetKind, { total, completed, running, remainingMs }: QueueProgress, cancelling: boolean) {
+    batchProgressBar.max = total;
+    batchProgressBar.value = completed;
+    if (cancelling) {
+        batchProgressText.textContent = `Cancelling... waiting for ${running} running job(s) to stop`;
+        return;
     }
+    const eta = formatRemaining(remainingMs);
+    batchProgressText.textContent = `${completed}/${total} ${BATCH_LABELS[kind]}${eta ? `, ${eta}` : ''}`;
+}
+
+function cancelGenerationBatch() {
+    if (!activeBatch) return;
+    activeBatch.abort();
+    cancelBatchBtn.disabled = true;
+    batchProgressText.textContent = 'Cancelling...';
+}
 
-    button.disabled = false;
-    button.textContent = buttonText;
+// Puts an asset back the way it was before a cancelled job started.
+function restoreCancelledAsset(index: number, kind: AssetKind) {
+    const asset = state.sceneAssets[index];
+    if (kind === 'image') {
+        asset.imageStatus = asset.imageUrl ? 'complete' : 'ready';
+        if (asset.imageUrl) {
+            renderImageAsset(index);
+        } else {
+            document.getElementById(`image-container-${index}`)!.innerHTML =
+                `<div class="asset-placeholder">Generated image will appear here.</div>`;
+        }
+        updateCardStatus(index, kind, asset.imageStatus);
+    } else if (kind === 'video') {
+        asset.videoStatus = asset.videoUrl ? 'complete' : 'ready';
+        if (asset.videoUrl) {
+            renderVideoAsset(index);
+        } else {
+            const videoContainer = document.getElementById(`video-container-${index}`)!;
+            videoContainer.style.display = 'none';
+            videoContainer.innerHTML = `<div class="asset-placeholder">Generated video will appear here.</div>`;
+        }
+        updateCardStatus(index, kind, asset.videoStatus);
+    } else {
+        asset.voStatus = asset.audioUrl ? 'complete' : 'ready';
+        updateCardStatus(index, kind, asset.voStatus);
+    }
+    persistCampaign();
 }
 
 // IMAGE GENERATION
 async function handleGenerateAllImages() {
-    await processSequentially(state.storyboard.scenes, generateSingleImage, generateAllImagesBtn, '1. Generate All Images');
+    await runGenerationBatch('image', generateAllImagesBtn, a => !a.userMedia && a.imageStatus !== 'complete', generateSingleImage);
     checkAssetGenerationStatus();
 }
 
-async function generateSingleImage(scene: any, index: number) {
-    if (state.sceneAssets[index].imageStatus === 'complete') return;
-    state.sceneAssets[index].imageStatus = 'generating';
+async function generateSingleImage(scene: Scene, index: number, regenerate = false, signal?: AbortSignal) {
+    const asset = state.sceneAssets[index];
+    if (asset.imageStatus === 'generating' || (asset.imageStatus === 'complete' && !regenerate)) return;
+    asset.imageStatus = 'generating';
     updateCardStatus(index, 'image', 'generating');
 
     const imageContainer = document.getElementById(`image-container-${index}`)!;
     imageContainer.innerHTML = `<div class="asset-placeholder"><div class="spinner"></div><p>Generating Image...</p></div>`;
+    const scope = usageScope(asset.id);
 
     try {
-        const visualPrompt = (document.getElementById(`prompt-${index}`) as HTMLTextAreaElement).value;
-        const augmentedPrompt = `Generate a photorealistic image based on this description: "${visualPrompt}". The second image provided is a logo. Please place this logo naturally and realistically onto the main product described in the scene.`;
-        
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image-preview',
-            contents: {
-                parts: [
-                    { text: augmentedPrompt },
-                    { inlineData: { data: state.logo.base64!, mimeType: state.logo.mimeType! } }
-                ],
-            },
-            config: { responseModalities: [Modality.IMAGE, Modality.TEXT] },
-        });
+        const visualPrompt = scene.visual_prompt;
+        if (!visualPrompt.trim()) {
+            throw new Error("The visual prompt for this scene is empty.");
+        }
+        const references = state.references.filter(reference => scene.references?.includes(reference.id));
+        const previousScene = scene.matchPreviousScene ? await previousSceneImage(index, signal) : null;
+        const { prompt, images } = sceneImageRequest(visualPrompt, { data: state.logo.base64!, mimeType: state.logo.mimeType! }, references, previousScene);
 
-        const imagePart = response.candidates?.[0]?.content?.parts.find(p => p.inlineData);
-        if (imagePart?.inlineData) {
-            const base64Data = imagePart.inlineData.data;
-            const mimeType = imagePart.inlineData.mimeType;
-            state.sceneAssets[index].imageB64 = base64Data;
-            
-            const watermarkedUrl = await applyWatermark(`data:${mimeType};base64,${base64Data}`);
-            state.sceneAssets[index].imageUrl = watermarkedUrl;
+        const { image } = await withRetry(() => trackUsage('image', providers.image.model, scope, () =>
+            providers.image.generateImage({ prompt, images, signal }), result => result.usage ?? {}), signal);
 
-            imageContainer.innerHTML = `<img src="${watermarkedUrl}" alt="Scene ${scene.id} Visual">`;
-            state.sceneAssets[index].imageStatus = 'complete';
+        if (image) {
+            const base64Data = image.data;
+            const mimeType = image.mimeType;
+            const watermarkedUrl = await applyWatermark(`data:${mimeType};base64,${base64Data}`);
+            throwIfCancelled(signal);
+
+            const variant = { imageUrl: watermarkedUrl, imageB64: base64Data, imageMimeType: mimeType, createdAt: Date.now() };
+            asset.imageVariants = [...(asset.imageVariants ?? []), variant];
+            asset.imageUrl = variant.imageUrl;
+            asset.imageB64 = variant.imageB64;
+            asset.imageMimeType = variant.imageMimeType;
+            asset.imageStatus = 'complete';
             updateCardStatus(index, 'image', 'complete');
+            renderImageAsset(index);
+            clearStaleVideo(index);
+            persistCampaign();
         } else {
-            throw new Error("Model did not return an image part. The prompt may have been blocked.");
+            const triggers = state.complianceIssues
+                .filter(issue => issue.kind === 'safety' && issue.ref.source === 'scene' && issue.ref.index === index)
+                .map(issue => `"${issue.term}"`);
+            throw new Error(`Model did not return an image part. The prompt may have been blocked${triggers.length ? ` (it mentions ${triggers.join(', ')})` : ''}.`);
         }
     } catch(e) {
+        if (e instanceof CancelledError || signal?.aborted) {
+            restoreCancelledAsset(index, 'image');
+            return;
+        }
         const errorMessage = e instanceof Error ? e.message : String(e);
         console.error(`Error generating image for scene ${index + 1}:`, e);
-        state.sceneAssets[index].imageStatus = 'failed';
-        updateCardStatus(index, 'image', 'failed');
-        imageContainer.innerHTML = `<div class="asset-placeholder"><p style="color:var(--error-color)">Image generation failed.</p><p class="error-details">${errorMessage}</p></div>`;
+        if (asset.imageUrl) {
+            // A failed retake leaves the previously selected take in place.
+            asset.imageStatus = 'complete';
+            updateCardStatus(index, 'image', 'complete');
+            renderImageAsset(index, errorMessage);
+        } else {
+            asset.imageStatus = 'failed';
+            updateCardStatus(index, 'image', 'failed');
+            imageContainer.innerHTML = `<div class="asset-placeholder"><p style="color:var(--error-color)">Image generation failed.</p><p class="error-details">${errorMessage}</p></div>`;
+        }
+        persistCampaign();
+    }
+}
+
+// The selected image as generated, before the watermark. Takes saved before the type was recorded are PNGs.
+function sourceImage(asset: SceneAsset): InlineImage {
+    return { data: asset.imageB64!, mimeType: asset.imageMimeType ?? 'image/png' };
+}
+
+/**
+ * The previous scene's image, for a scene that should match it. When that image is still being generated
+ * (usually earlier in the same batch) it's waited for; a scene without one is generated on its own.
+ */
+async function previousSceneImage(index: number, signal?: AbortSignal): Promise<InlineImage | null> {
+    const previous = state.sceneAssets[index - 1];
+    if (!previous) return null;
+    if (previous.imageStatus === 'generating') {
+        document.querySelector(`#image-container-${index} .asset-placeholder p`)!.textContent = `Waiting for scene ${index}'s image...`;
+    }
+    while (previous.imageStatus === 'generating') {
+        await sleep(PREVIOUS_IMAGE_POLL_MS, signal);
     }
+    if (!previous.imageB64) {
+        console.warn(`Scene ${index} has no image yet, so scene ${index + 1} is generated without matching it.`);
+        return null;
+    }
+    document.querySelector(`#image-container-${index} .asset-placeholder p`)!.textContent = 'Generating Image...';
+    return sourceImage(previous);
 }
 
 async function applyWatermark(imageUrl: string): Promise<string> {
     if (!state.watermarkText) return imageUrl;
+    const { kit, fontFamily } = await currentBrandStyle();
 
     return new Promise((resolve) => {
         const canvas = document.createElement('canvas');
@@ -318,11 +1085,14 @@ async function applyWatermark(imageUrl: string): Promise<string> {
             canvas.height = img.height;
             ctx.drawImage(img, 0, 0);
             
-            ctx.fillStyle = 'rgba(255, 255, 255, 0.5)';
-            ctx.font = `${Math.max(12, canvas.width / 50)}px ${getComputedStyle(document.body).fontFamily}`;
+            const fontSize = Math.max(12, canvas.width / 50);
+            ctx.fillStyle = withOpacity(kit.primaryColor, kit.watermarkOpacity);
+            ctx.font = `${fontSize}px ${fontFamily}`;
             ctx.textAlign = 'left';
-            ctx.textBaseline = 'bottom';
-            ctx.fillText(state.watermarkText, 20, canvas.height - 20);
+            ctx.textBaseline = 'top';
+            const area = { x: 20, y: 20, width: canvas.width - 40, height: canvas.height - 40 };
+            const { x, y } = cornerPosition(area, ctx.measureText(state.watermarkText).width, fontSize, kit.watermarkPosition);
+            ctx.fillText(state.watermarkText, x, y);
             
             resolve(canvas.toDataURL());
         };
@@ -332,13 +1102,13 @@ async function applyWatermark(imageUrl: string): Promise<string> {
 
 // VIDEO GENERATION
 async function handleGenerateAllVideos() {
-    await processSequentially(state.storyboard.scenes, generateSingleVideo, generateAllVideosBtn, '2. Generate All Videos');
+    await runGenerationBatch('video', generateAllVideosBtn, a => !a.userMedia && a.videoStatus !== 'complete' && a.imageStatus === 'complete', generateSingleVideo);
     checkAssetGenerationStatus();
 }
 
-async function generateSingleVideo(scene: any, index: number) {
+async function generateSingleVideo(scene: Scene, index: number, regenerate = false, signal?: AbortSignal) {
     const asset = state.sceneAssets[index];
-    if (asset.videoStatus === 'complete' || asset.imageStatus !== 'complete') return;
+    if (asset.videoStatus === 'generating' || (asset.videoStatus === 'complete' && !regenerate) || asset.imageStatus !== 'complete') return;
 
     asset.videoStatus = 'generating';
     updateCardStatus(index, 'video', 'generating');
@@ -346,466 +1116,2942 @@ async function generateSingleVideo(scene: any, index: number) {
     const videoContainer = document.getElementById(`video-container-${index}`)!;
     videoContainer.style.display = 'block';
     videoContainer.innerHTML = `<div class="asset-placeholder"><div class="spinner"></div><p id="progress-message-${index}">Initializing video...</p></div>`;
+    // Veo bills per second of video, so the clip is logged once, when it's done, rather than per poll.
+    const scope = usageScope(asset.id);
+    const startedAt = Date.now();
+    const logVideo = (units: UsageUnits, outcome: UsageOutcome) => recordUsage({
+        ...scope, kind: 'video', model: providers.video.model, units, durationMs: Date.now() - startedAt, outcome,
+    });
 
     try {
-        const visualPrompt = (document.getElementById(`prompt-${index}`) as HTMLTextAreaElement).value;
-        let operation = await ai.models.generateVideos({
-            model: 'veo-2.0-generate-001',
-            prompt: `Animate this image according to the following description: "${visualPrompt}"`,
-            image: { imageBytes: asset.imageB64!, mimeType: 'image/png' },
-            config: { numberOfVideos: 1 },
-        });
+        const visualPrompt = scene.visual_prompt;
+        let operation: VideoOperation;
+        if (asset.videoOperationName) {
+            // Resume polling an operation started before the campaign was last closed (or a batch was cancelled).
+            const name = asset.videoOperationName;
+            operation = await withRetry(() => providers.video.getVideoOperation(name, signal), signal);
+        } else {
+            const options = videoOptions(effectiveVideoSettings(scene), state.aspectRatio);
+            operation = await withRetry(() => providers.video.startVideo({
+                prompt: `Animate this image according to the following description: "${visualPrompt}"`,
+                image: sourceImage(asset),
+                options,
+                signal,
+            }), signal);
+            asset.videoOperationName = operation.name;
+            persistCampaign();
+        }
         
         while (!operation.done) {
-            await new Promise(resolve => setTimeout(resolve, VEO_POLLING_INTERVAL));
-            operation = await ai.operations.getVideosOperation({ operation });
+            await sleep(providers.video.pollIntervalMs, signal);
+            const name = operation.name;
+            operation = await withRetry(() => providers.video.getVideoOperation(name, signal), signal);
         }
         
         if (operation.error) {
-            console.error('Video generation operation failed:', operation.error);
-            const errorMessage = (operation.error as any).message || 'Unknown video generation error.';
-            throw new Error(`Video generation failed: ${errorMessage}`);
+            throw new Error(`Video generation failed: ${operation.error}`);
         }
 
-        if (operation.response?.generatedVideos?.[0]?.video?.uri) {
-            const downloadLink = operation.response.generatedVideos[0].video.uri;
-            const videoResponse = await fetch(`${downloadLink}&key=${process.env.API_KEY}`);
-             if (!videoResponse.ok) {
-                throw new Error(`Failed to download video: ${videoResponse.statusText}`);
-            }
-            const videoBlob = await videoResponse.blob();
-            const videoUrl = URL.createObjectURL(videoBlob);
-            
-            asset.videoUrl = videoUrl;
+        if (operation.videoUris?.length) {
+            // Every take the request returned is kept; the first one is selected.
+            const takes = await Promise.all(operation.videoUris.map(async uri => {
+                const videoBlob = await withRetry(() => providers.video.downloadVideo(uri, signal), signal);
+                return { videoBlob, videoUrl: URL.createObjectURL(videoBlob), createdAt: Date.now() };
+            }));
+            const durations = await Promise.all(takes.map(take => measureMediaDuration(take.videoUrl, 'video')));
+            logVideo({ seconds: durations.reduce((total, seconds) => total + seconds, 0) }, 'success');
+
+            asset.videoVariants = [...(asset.videoVariants ?? []), ...takes];
+            asset.videoBlob = takes[0].videoBlob;
+            asset.videoUrl = takes[0].videoUrl;
+            asset.videoOperationName = undefined;
             asset.videoStatus = 'complete';
             updateCardStatus(index, 'video', 'complete');
-            videoContainer.innerHTML = `<video src="${videoUrl}" controls muted loop playsinline></video>`;
+            renderVideoAsset(index);
+            persistCampaign();
         } else {
             console.error("Video generation operation completed but no video URI found. Full operation object:", operation);
             throw new Error('Video generation finished but no video URI was found.');
         }
 
     } catch (error) {
+        logVideo({}, usageOutcome(error, signal));
+        if (error instanceof CancelledError || signal?.aborted) {
+            // The Veo operation keeps running server-side, so its name is kept to pick it up again later.
+            restoreCancelledAsset(index, 'video');
+            return;
+        }
         console.error(`Error generating video for scene ${index + 1}:`, error);
-        asset.videoStatus = 'failed';
-        updateCardStatus(index, 'video', 'failed');
+        asset.videoOperationName = undefined;
         const errorMessage = error instanceof Error ? error.message : String(error);
-        videoContainer.innerHTML = `<div class="asset-placeholder"><p style="color:var(--error-color)">Video generation failed.</p><p class="error-details">${errorMessage}</p></div>`;
+        if (asset.videoUrl) {
+            asset.videoStatus = 'complete';
+            updateCardStatus(index, 'video', 'complete');
+            renderVideoAsset(index, errorMessage);
+        } else {
+            asset.videoStatus = 'failed';
+            updateCardStatus(index, 'video', 'failed');
+            videoContainer.innerHTML = `<div class="asset-placeholder"><p style="color:var(--error-color)">Video generation failed.</p><p class="error-details">${errorMessage}</p></div>`;
+        }
+        persistCampaign();
     }
 }
 
 // VOICEOVER GENERATION (ELEVENLABS)
 async function handleGenerateAllVoiceovers() {
-    if (!state.elevenApiKey) {
-        showError("ElevenLabs API Key is not configured. Please enter it in the setup form and start over.");
+    if (needsElevenLabsKey() && !state.elevenApiKey) {
+        showError("ElevenLabs API Key is not configured. Please enter it in the setup form and reopen the campaign.");
         return;
     }
-    await processSequentially(state.storyboard.scenes, generateSingleVoiceover, generateAllVoBtn, '3. Generate All Voiceovers');
+    await runGenerationBatch('vo', generateAllVoBtn, a => a.voStatus !== 'complete', generateSingleVoiceover);
     checkAssetGenerationStatus();
 }
 
-async function generateSingleVoiceover(scene: any, index: number) {
-    if (state.sceneAssets[index].voStatus === 'complete') return;
+async function generateSingleVoiceover(scene: Scene, index: number, regenerate = false, signal?: AbortSignal) {
+    const asset = state.sceneAssets[index];
+    if (asset.voStatus === 'generating' || (asset.voStatus === 'complete' && !regenerate)) return;
     
     // Clear previous errors
     const voGroup = document.getElementById(`vo-${index}`)?.parentElement;
     voGroup?.querySelector('.error-details')?.remove();
 
-    state.sceneAssets[index].voStatus = 'generating';
+    asset.voStatus = 'generating';
     updateCardStatus(index, 'vo', 'generating');
 
     try {
-        const voiceoverText = (document.getElementById(`vo-${index}`) as HTMLInputElement).value;
-        const response = await fetch(`https://api.elevenlabs.io/v1/text-to-speech/${ELEVENLABS_VOICE_ID}`, {
-            method: 'POST',
-            headers: {
-                'Accept': 'audio/mpeg',
-                'Content-Type': 'application/json',
-                'xi-api-key': state.elevenApiKey!
-            },
-            body: JSON.stringify({
-                text: voiceoverText,
-                model_id: 'eleven_multilingual_v2',
-                voice_settings: { stability: 0.5, similarity_boost: 0.75 }
-            })
-        });
-
-        if (!response.ok) {
-            const errorData = await response.text();
-            throw new Error(`ElevenLabs API Error: ${response.statusText} - ${errorData}`);
+        const voiceoverText = scene.voiceover;
+        if (!voiceoverText.trim()) {
+            throw new Error("The voiceover for this scene is empty.");
         }
-
-        const audioBlob = await response.blob();
-        state.sceneAssets[index].audioUrl = URL.createObjectURL(audioBlob);
-        state.sceneAssets[index].voStatus = 'complete';
+        const voice = effectiveVoice(scene);
+        const scope = usageScope(asset.id);
+        const { audio: audioBlob, words } = await withRetry(() => trackUsage('speech', providers.speech.model, scope, () =>
+            providers.speech.synthesize({ text: voiceoverText, voice, signal }), () => ({ characters: [...voiceoverText].length })), signal);
+        const audioUrl = URL.createObjectURL(audioBlob);
+        asset.voVariants = [...(asset.voVariants ?? []), { audioBlob, audioUrl, words: words ?? undefined, createdAt: Date.now() }];
+        asset.audioBlob = audioBlob;
+        asset.audioUrl = audioUrl;
+        asset.voStatus = 'complete';
         updateCardStatus(index, 'vo', 'complete');
+        renderVoiceoverAsset(index);
+        persistCampaign();
 
     } catch(e) {
+        if (e instanceof CancelledError || signal?.aborted) {
+            restoreCancelledAsset(index, 'vo');
+            return;
+        }
         const errorMessage = e instanceof Error ? e.message : String(e);
         console.error(`Error generating voiceover for scene ${index + 1}:`, e);
-        state.sceneAssets[index].voStatus = 'failed';
-        updateCardStatus(index, 'vo', 'failed');
+        asset.voStatus = asset.audioUrl ? 'complete' : 'failed';
+        updateCardStatus(index, 'vo', asset.voStatus);
         voGroup?.insertAdjacentHTML('beforeend', `<p class="error-details" style="color:var(--error-color)">${errorMessage}</p>`);
+        persistCampaign();
     }
 }
 
-
-function checkAssetGenerationStatus() {
-  const allImages = state.sceneAssets.every(a => a.imageStatus === 'complete');
-  generateAllVideosBtn.disabled = !allImages;
-  
-  const allVideos = state.sceneAssets.every(a => a.videoStatus === 'complete');
-  generateAllVoBtn.disabled = !allVideos;
-
-  const allVO = state.sceneAssets.every(a => a.voStatus === 'complete');
-  previewBtn.disabled = !allVideos || !allVO;
-  downloadBtn.disabled = !allVideos || !allVO;
-  generatePostCopyBtn.disabled = !allVideos || !allVO;
+// Focal points only affect how frames are cropped at export, so they can be set at any time.
+function setFocalPoint(index: number, frame: HTMLElement, event: MouseEvent) {
+    const rect = frame.getBoundingClientRect();
+    const clamp = (value: number) => Math.min(1, Math.max(0, value));
+    const focalPoint = {
+        x: clamp((event.clientX - rect.left) / rect.width),
+        y: clamp((event.clientY - rect.top) / rect.height),
+    };
+    state.storyboard.scenes[index].focalPoint = focalPoint;
+    const marker = frame.querySelector('.focal-marker') as HTMLElement;
+    marker.style.left = `${focalPoint.x * 100}%`;
+    marker.style.top = `${focalPoint.y * 100}%`;
+    persistCampaign();
 }
 
-// --- POST COPY GENERATION ---
-async function handleGeneratePostCopy() {
-    if (state.isGenerating || !state.storyboard) return;
-
-    state.isGenerating = true;
-    generatePostCopyBtn.disabled = true;
-    showLoader("✍️ Gemini is writing your social media post...");
-
-    try {
-        const formData = new FormData(campaignForm);
-        const productDesc = formData.get('product-desc') as string;
-        const targetAudience = formData.get('target-audience') as string;
-        const format = formData.get('format') as string;
-        const platformText = format === '9:16' 
-            ? 'vertical video platforms like TikTok, Instagram Reels, and YouTube Shorts' 
-            : 'feed-based platforms like Instagram and Facebook';
+// --- Scene Variants ---
+type AssetKind = 'image' | 'video' | 'vo';
 
+// The provider each kind of scene asset is generated by.
+const ASSET_PROVIDERS: Record<AssetKind, UsageKind> = { image: 'image', video: 'video', vo: 'speech' };
 
-        const storyboardSummary = state.storyboard.scenes.map((scene: any) => {
-            return `Scene ${scene.id}:
-- Visuals: ${scene.visual_prompt}
-- Voiceover: ${scene.voiceover}
-- On-screen text: ${scene.on_screen_text}`;
-        }).join('\n\n');
+function getVariantCount(asset: SceneAsset, kind: AssetKind): number {
+    if (kind === 'image') return asset.imageVariants?.length ?? 0;
+    if (kind === 'video') return asset.videoVariants?.length ?? 0;
+    return asset.voVariants?.length ?? 0;
+}
 
-        const prompt = `
-You are a social media marketing expert specializing in creating viral short-form video content.
-Based on the following ad campaign details, generate a compelling post copy and relevant hashtags.
+function getSelectedVariantIndex(asset: SceneAsset, kind: AssetKind): number {
+    if (kind === 'image') return asset.imageVariants?.findIndex(v => v.imageUrl === asset.imageUrl) ?? -1;
+    if (kind === 'video') return asset.videoVariants?.findIndex(v => v.videoBlob === asset.videoBlob) ?? -1;
+    return asset.voVariants?.findIndex(v => v.audioBlob === asset.audioBlob) ?? -1;
+}
 
-**Campaign Details:**
-- **Product:** ${productDesc}
-- **Target Audience:** ${targetAudience}
-- **Platform:** ${platformText}
+// Clips are animated from the scene's image, so the selected clip no longer matches once the image changes.
+// It's cleared the same way editing the visual prompt clears it; earlier takes stay in the variant history.
+function clearStaleVideo(index: number) {
+    if (state.sceneAssets[index].videoStatus === 'ready') return;
+    resetSceneAsset(index, 'video');
+}
 
-**Video Storyboard Summary:**
-${storyboardSummary}
+function selectVariant(index: number, kind: AssetKind, variantIndex: number) {
+    const asset = state.sceneAssets[index];
+    if (kind === 'image') {
+        const variant = asset.imageVariants![variantIndex];
+        if (variant.imageUrl !== asset.imageUrl) clearStaleVideo(index);
+        asset.imageUrl = variant.imageUrl;
+        asset.imageB64 = variant.imageB64;
+        asset.imageMimeType = variant.imageMimeType;
+        asset.imageStatus = 'complete';
+        renderImageAsset(index);
+    } else if (kind === 'video') {
+        const variant = asset.videoVariants![variantIndex];
+        asset.videoBlob = variant.videoBlob;
+        asset.videoUrl = variant.videoUrl;
+        asset.videoStatus = 'complete';
+        renderVideoAsset(index);
+    } else {
+        const variant = asset.voVariants![variantIndex];
+        asset.audioBlob = variant.audioBlob;
+        asset.audioUrl = variant.audioUrl;
+        asset.voStatus = 'complete';
+        renderVoiceoverAsset(index);
+    }
+    updateCardStatus(index, kind, 'complete');
+    checkAssetGenerationStatus();
+    persistCampaign();
+}
 
-**Instructions:**
-1.  Write a captivating and concise caption for the post. It should grab attention, explain the value proposition, and have a clear call-to-action.
-2.  Provide a list of 5-7 highly relevant and trending hashtags.
+function renderVariantPicker(index: number, kind: AssetKind): string {
+    const asset = state.sceneAssets[index];
+    const count = getVariantCount(asset, kind);
+    if (count < 2) return '';
+    const selected = getSelectedVariantIndex(asset, kind);
+    const buttons = Array.from({ length: count }, (_, i) =>
+        `<button class="variant-btn${i === selected ? ' active' : ''}" data-variant-kind="${kind}" data-variant-index="${i}">Take ${i + 1}</button>`
+    ).join('');
+    return `<div class="variant-picker">${buttons}</div>`;
+}
 
-Please format your response as a single, valid JSON object with two keys: "caption" (a string) and "hashtags" (an array of strings).
-`;
+function renderImageAsset(index: number, errorMessage?: string) {
+    const asset = state.sceneAssets[index];
+    const imageContainer = document.getElementById(`image-container-${index}`)!;
+    const focal = state.storyboard.scenes[index].focalPoint ?? CENTER_FOCAL_POINT;
+    imageContainer.innerHTML = `
+        <div class="focal-frame" data-focal-frame title="Click to set the focal point used when cropping to other formats">
+            <img alt="Scene ${index + 1} Visual">
+            <span class="focal-marker" style="left:${focal.x * 100}%;top:${focal.y * 100}%"></span>
+        </div>${renderVariantPicker(index, 'image')}`;
+    imageContainer.querySelector('img')!.src = asset.imageUrl!;
+    if (errorMessage) {
+        imageContainer.insertAdjacentHTML('beforeend', `<p class="error-details" style="color:var(--error-color)">Retake failed: ${errorMessage}</p>`);
+    }
+}
 
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: { responseMimeType: "application/json" }
-        });
+function renderVideoAsset(index: number, errorMessage?: string) {
+    const asset = state.sceneAssets[index];
+    const videoContainer = document.getElementById(`video-container-${index}`)!;
+    videoContainer.style.display = 'block';
+    videoContainer.innerHTML = `<video src="${asset.videoUrl}" controls muted loop playsinline></video>${renderVariantPicker(index, 'video')}`;
+    if (errorMessage) {
+        videoContainer.insertAdjacentHTML('beforeend', `<p class="error-details" style="color:var(--error-color)">Retake failed: ${errorMessage}</p>`);
+    }
+}
 
-        const postData = JSON.parse(response.text.trim());
-        renderPostCopy(postData.caption, postData.hashtags);
+function renderVoiceoverAsset(index: number) {
+    const asset = state.sceneAssets[index];
+    const voContainer = document.getElementById(`vo-container-${index}`)!;
+    voContainer.innerHTML = asset.audioUrl
+        ? `<audio src="${asset.audioUrl}" controls></audio>${renderVariantPicker(index, 'vo')}`
+        : '';
+}
 
-    } catch (error) {
-        console.error("Failed to generate post copy:", error);
-        showError("Failed to generate post copy. Please check the console for details.");
-    } finally {
-        hideLoader();
-        state.isGenerating = false;
-        generatePostCopyBtn.disabled = false;
+function regenerateSceneAsset(index: number, kind: AssetKind) {
+    const scene = state.storyboard.scenes[index];
+    const asset = state.sceneAssets[index];
+    if (isSceneGenerating(index)) {
+        showError("This scene is already generating. Please wait until it finishes.");
+        return;
+    }
+    if (kind === 'image') {
+        generateSingleImage(scene, index, true).then(checkAssetGenerationStatus);
+    } else if (kind === 'video') {
+        if (asset.imageStatus !== 'complete') {
+            showError("Generate an image for this scene before generating its video.");
+            return;
+        }
+        generateSingleVideo(scene, index, true).then(checkAssetGenerationStatus);
+    } else {
+        if (needsElevenLabsKey() && !state.elevenApiKey) {
+            showError("ElevenLabs API Key is not configured. Please enter it in the setup form and reopen the campaign.");
+            return;
+        }
+        generateSingleVoiceover(scene, index, true).then(checkAssetGenerationStatus);
     }
 }
 
-function renderPostCopy(caption: string, hashtags: string[]) {
-    const hashtagsString = hashtags.join(' ');
-    const fullPostText = `${caption}\n\n${hashtagsString}`;
 
-    postCopyContent.innerHTML = `
-        <button class="copy-btn" id="copy-post-btn" title="Copy to clipboard">
-            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 -960 960 960" fill="currentColor"><path d="M360-240q-33 0-56.5-23.5T280-320v-480q0-33 23.5-56.5T360-880h360q33 0 56.5 23.5T800-800v480q0 33-23.5 56.5T720-240H360Zm0-80h360v-480H360v480ZM200-80q-33 0-56.5-23.5T120-160v-560h80v560h440v80H200Zm160-720v480-480Z"/></svg>
-            Copy
-        </button>
-        <pre>${caption}</pre>
-        <div class="hashtags">${hashtagsString}</div>
-    `;
+// A scene's picture is ready when it has a generated clip or the user's own media.
+function hasSceneVisual(asset: SceneAsset): boolean {
+  return !!asset.userMedia || asset.videoStatus === 'complete';
+}
 
-    postCopyView.classList.remove('hidden');
+function checkAssetGenerationStatus() {
+  const allImages = state.sceneAssets.every(a => a.userMedia || a.imageStatus === 'complete');
+  generateAllVideosBtn.disabled = !allImages;
+  
+  const allVideos = state.sceneAssets.every(hasSceneVisual);
+  generateAllVoBtn.disabled = !allVideos;
 
-    const copyBtn = document.getElementById('copy-post-btn')!;
-    copyBtn.addEventListener('click', () => {
-        navigator.clipboard.writeText(fullPostText).then(() => {
-            copyBtn.innerHTML = `Copied!`;
-            setTimeout(() => {
-                copyBtn.innerHTML = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 -960 960 960" fill="currentColor"><path d="M360-240q-33 0-56.5-23.5T280-320v-480q0-33 23.5-56.5T360-880h360q33 0 56.5 23.5T800-800v480q0 33-23.5 56.5T720-240H360Zm0-80h360v-480H360v480ZM200-80q-33 0-56.5-23.5T120-160v-560h80v560h440v80H200Zm160-720v480-480Z"/></svg> Copy`;
-            }, 2000);
-        });
-    });
+  const allVO = state.sceneAssets.every(a => a.voStatus === 'complete');
+  previewBtn.disabled = !allVideos || !allVO;
+  downloadBtn.disabled = !allVideos || !allVO;
+  generatePostCopyBtn.disabled = !allVideos || !allVO;
+  // Caption timing only depends on the voiceovers.
+  downloadSrtBtn.disabled = !allVO;
+  downloadVttBtn.disabled = !allVO;
 }
 
+// --- User Media ---
+// Swaps the card between the user's media and the generated image and video it stands in for.
+function renderUserMediaAsset(index: number) {
+    const media = state.sceneAssets[index].userMedia;
+    const card = document.getElementById(`scene-card-${index}`)!;
+    const container = document.getElementById(`user-media-container-${index}`)!;
+    container.classList.toggle('hidden', !media);
+    document.getElementById(`image-container-${index}`)!.classList.toggle('hidden', !!media);
+    card.querySelectorAll('[data-regenerate="image"], [data-regenerate="video"]')
+        .forEach(button => button.classList.toggle('hidden', !!media));
+    if (!media) {
+        container.replaceChildren();
+        return;
+    }
+
+    document.getElementById(`video-container-${index}`)!.style.display = 'none';
+    for (const type of ['image', 'video'] as const) {
+        const status = document.getElementById(`${type}-status-${index}`)!;
+        status.textContent = `${type.toUpperCase()}: Uploaded`;
+        status.className = 'scene-status status-complete';
+    }
+    const focal = state.storyboard.scenes[index].focalPoint ?? CENTER_FOCAL_POINT;
+    container.innerHTML = `${media.kind === 'image' ? `
+        <div class="focal-frame" data-focal-frame title="Click to set the focal point the image is cropped around and zooms towards">
+            <img alt="Scene ${index + 1} Visual">
+            <span class="focal-marker" style="left:${focal.x * 100}%;top:${focal.y * 100}%"></span>
+        </div>` : `
+        <video controls muted playsinline></video>
+        <div class="trim-controls">
+            <label>In <input type="number" min="0" step="0.1" data-trim-field="start"></label>
+            <label>Out <input type="number" min="0" step="0.1" data-trim-field="end"></label>
+            <span class="field-hint">of ${formatSeconds(media.duration)}</span>
+        </div>`}
+        <p class="user-media-name"><span></span> <button class="link-btn" data-remove-user-media>Remove</button></p>`;
+    container.querySelector('.user-media-name span')!.textContent = media.name;
+    if (media.kind === 'image') {
+        container.querySelector('img')!.src = media.url!;
+    } else {
+        container.querySelector('video')!.src = `${media.url}#t=${media.trimStart},${media.trimEnd}`;
+        container.querySelectorAll<HTMLInputElement>('[data-trim-field]').forEach(input => { input.max = String(media.duration); });
+        (container.querySelector('[data-trim-field="start"]') as HTMLInputElement).value = media.trimStart.toFixed(1);
+        (container.querySelector('[data-trim-field="end"]') as HTMLInputElement).value = media.trimEnd.toFixed(1);
+    }
+}
+
+async function onUserMediaFileChange(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    const card = input.closest('.scene-card') as HTMLElement | null;
+    if (!file || !card) return;
+    const asset = state.sceneAssets[Number(card.dataset.index)];
+    if (isSceneGenerating(Number(card.dataset.index))) {
+        showError("This scene is still generating. Please wait until it finishes before replacing its media.");
+        return;
+    }
+
+    let media: UserMedia;
+    try {
+        media = await readUserMedia(file);
+    } catch (e) {
+        console.error('Failed to read scene media:', e);
+        showError(e instanceof UserMediaError ? e.message : "Couldn't read that file.");
+        return;
+    }
+    // Scenes may have been reordered while the file was read.
+    const index = state.sceneAssets.indexOf(asset);
+    if (index === -1) return;
+    if (asset.userMedia?.url) URL.revokeObjectURL(asset.userMedia.url);
+    asset.userMedia = { ...media, url: URL.createObjectURL(media.blob) };
+    renderUserMediaAsset(index);
+    checkAssetGenerationStatus();
+    persistCampaign();
+}
+
+function onTrimChange(event: Event) {
+    const field = event.target as HTMLInputElement;
+    const index = Number((field.closest('.scene-card') as HTMLElement).dataset.index);
+    const media = state.sceneAssets[index].userMedia;
+    if (!media) return;
+    const changed = field.dataset.trimField as 'start' | 'end';
+    const value = Number(field.value);
+    Object.assign(media, clampTrim(
+        media,
+        changed === 'start' ? value : media.trimStart,
+        changed === 'end' ? value : media.trimEnd,
+        changed,
+    ));
+    renderUserMediaAsset(index);
+    persistCampaign();
+}
+
+// Goes back to the scene's generated image and video, which were kept all along.
+function removeUserMedia(index: number) {
+    const asset = state.sceneAssets[index];
+    if (asset.userMedia?.url) URL.revokeObjectURL(asset.userMedia.url);
+    asset.userMedia = undefined;
+    restoreSceneCard(index);
+    checkAssetGenerationStatus();
+    persistCampaign();
+}
+
+// --- POST COPY GENERATION ---
+const COPY_ICON = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 -960 960 960" fill="currentColor"><path d="M360-240q-33 0-56.5-23.5T280-320v-480q0-33 23.5-56.5T360-880h360q33 0 56.5 23.5T800-800v480q0 33-23.5 56.5T720-240H360Zm0-80h360v-480H360v480ZM200-80q-33 0-56.5-23.5T120-160v-560h80v560h440v80H200Zm160-720v480-480Z"/></svg>`;
+
+function readPostCopyPlatforms(): Platform[] {
+    return Array.from(postPlatformInputs).filter(input => input.checked).map(input => input.value as Platform);
+}
+
+// Copy that was already written keeps its platforms ticked; otherwise the format's usual platforms are.
+function resetPostCopyPlatforms(format: AspectRatio, copy: PostCopy | null) {
+    const platforms = copy?.platforms.map(p => p.platform) ?? defaultPlatforms(format);
+    postPlatformInputs.forEach(input => { input.checked = platforms.includes(input.value as Platform); });
+}
+
+async function handleGeneratePostCopy() {
+    if (state.isGenerating || !state.storyboard) return;
+    const platforms = readPostCopyPlatforms();
+    if (platforms.length === 0) {
+        showError("Select at least one platform to write post copy for.");
+        return;
+    }
+
+    state.isGenerating = true;
+    generatePostCopyBtn.disabled = true;
+    showLoader("✍️ Gemini is writing your social media posts...");
+
+    const written = new Map<Platform, PlatformCopy>();
+    const failed: Platform[] = [];
+    try {
+        await runQueue(platforms, async platform => {
+            try {
+                written.set(platform, await generatePlatformCopy(platform));
+            } catch (error) {
+                console.error(`Failed to generate ${PLATFORMS[platform].label} post copy:`, error);
+                failed.push(platform);
+            }
+        }, {
+            concurrency: state.concurrency.text,
+            onProgress: ({ completed, total }) => {
+                loaderMessage.textContent = `✍️ Gemini is writing your social media posts (${completed}/${total})...`;
+            },
+        });
+
+        // Platforms that failed keep any copy written for them earlier.
+        const previous = state.postCopy?.platforms ?? [];
+        const copies = platforms
+            .map(platform => written.get(platform) ?? previous.find(p => p.platform === platform))
+            .filter((copy): copy is PlatformCopy => !!copy);
+        if (copies.length) {
+            state.postCopy = { platforms: copies };
+            renderPostCopy(state.postCopy);
+            renderCompliance();
+            persistCampaign();
+        }
+        if (failed.length) {
+            showError(`Failed to generate post copy for ${failed.map(p => PLATFORMS[p].label).join(', ')}. Please check the console for details.`);
+        }
+    } finally {
+        hideLoader();
+        state.isGenerating = false;
+        generatePostCopyBtn.disabled = false;
+    }
+}
+
+/**
+ * Writes copy for one platform, re-prompting with the specific problems while it breaks the platform's
+ * limits. Copy that still doesn't fit after the last attempt is kept; its problems are shown with it.
+ */
+async function generatePlatformCopy(platform: Platform): Promise<PlatformCopy> {
+    const spec = PLATFORMS[platform];
+    const inputs = state.inputs!;
+    const storyboardSummary = state.storyboard!.scenes.map((scene: Scene) => {
+        return `Scene ${scene.id}:
+- Visuals: ${scene.visual_prompt}
+- Voiceover: ${scene.voiceover}
+- On-screen text: ${scene.on_screen_text}`;
+    }).join('\n\n');
+    const endCardUrl = normalizeUrl(state.endCard.url);
+    const websiteUrl = endCardUrl && trackVariantUrl(endCardUrl, state.variant);
+    const angle = state.variant?.angle;
+
+    const prompt = `
+You are a social media marketing expert who writes native, high-performing copy for each platform.
+Write the post that will accompany this video ad on ${spec.label}.
+
+**Campaign Details:**
+- **Product:** ${inputs.productDesc}
+- **Target Audience:** ${inputs.targetAudience}
+- **Language:** ${inputs.language || 'English'}${state.endCard.cta ? `\n- **Call to action:** ${state.endCard.cta}` : ''}${websiteUrl ? `\n- **Website:** ${websiteUrl}` : ''}${state.endCard.offer ? `\n- **Offer:** ${state.endCard.offer}` : ''}${angle ? `\n- **Creative angle:** ${CREATIVE_ANGLES[angle].label}. ${CREATIVE_ANGLES[angle].brief} Match the post to this angle.` : ''}
+
+**Video Storyboard Summary:**
+${storyboardSummary}
+
+**${spec.label} rules:**
+- Style: ${spec.style}.
+- The caption or long caption plus its hashtags must stay within ${spec.captionLimit} characters.${spec.foldLength ? `\n- Each hook must be at most ${spec.foldLength} characters, so it shows before the post is cut off.` : ''}
+- Use ${spec.hashtags.suggested} highly relevant hashtags, never more than ${spec.hashtags.max}.${spec.titleLimit ? `\n- Include a title of at most ${spec.titleLimit} characters; the caption and long caption are used as the video description.` : ''}
+
+**Instructions:**
+1.  Write ${HOOK_COUNT} alternative hooks: opening lines that stop the scroll.
+2.  Write a concise caption that opens with a hook, explains the value proposition and ends with a clear call to action.
+3.  Write a long caption that tells the product's story in more depth and ends with a call to action.
+4.  Write ${CTA_COUNT} alternative calls to action.
+5.  List the hashtags.
+
+Write everything in ${inputs.language || 'English'}.
+`;
+
+    const scope = usageScope(null);
+    let contents = prompt;
+    let copy: PlatformCopy | null = null;
+    for (let attempt = 1; attempt <= MAX_COPY_ATTEMPTS; attempt++) {
+        const { text: responseText } = await withRetry(() => trackUsage('text', providers.text.model, scope, () =>
+            providers.text.generateJson({ prompt: contents, responseSchema: platformCopySchema(platform) }), result => result.usage ?? {}));
+        let parsed: unknown = null;
+        try {
+            parsed = JSON.parse(responseText);
+        } catch (e) {
+            console.error("Failed to parse JSON from model response:", responseText);
+        }
+        const result = readPlatformCopy(parsed, platform);
+        if (result.repairs.length) {
+            console.warn(`Repaired ${spec.label} post copy from model response:`, result.repairs);
+        }
+        const problems = result.copy ? platformCopyProblems(result.copy) : ['The response was not valid JSON.'];
+        copy = result.copy ?? copy;
+        if (copy && !problems.length) return copy;
+
+        console.warn(`${spec.label} post copy attempt ${attempt} has problems:`, problems);
+        contents = `${prompt}\n\nYour previous response had these problems, fix all of them:\n- ${problems.join('\n- ')}`;
+    }
+    if (!copy) throw new Error(`No usable ${spec.label} post copy after ${MAX_COPY_ATTEMPTS} attempts.`);
+    return copy;
+}
+
+function copyToClipboard(button: HTMLElement, text: string) {
+    navigator.clipboard.writeText(text).then(() => {
+        const label = button.innerHTML;
+        button.innerHTML = `Copied!`;
+        setTimeout(() => { button.innerHTML = label; }, 2000);
+    });
+}
+
+// Built with text nodes rather than markup so model output can't inject HTML.
+function renderPlatformCopy(copy: PlatformCopy): HTMLElement {
+    const spec = PLATFORMS[copy.platform];
+    const card = document.createElement('div');
+    card.className = 'platform-copy';
+    const element = (tag: string, text: string, className?: string) => {
+        const el = document.createElement(tag);
+        el.textContent = text;
+        if (className) el.className = className;
+        return el;
+    };
+    const copyButton = (label: string, text: string) => {
+        const button = element('button', '', 'copy-btn');
+        button.innerHTML = `${COPY_ICON} ${label}`;
+        button.title = 'Copy to clipboard';
+        button.addEventListener('click', () => copyToClipboard(button, text));
+        return button;
+    };
+    const options = (items: string[]) => {
+        const list = element('ul', '', 'copy-options');
+        items.forEach(item => {
+            const li = element('li', item);
+            li.title = 'Click to copy';
+            li.addEventListener('click', () => copyToClipboard(li, item));
+            list.appendChild(li);
+        });
+        return list;
+    };
+
+    const header = element('div', '', 'platform-copy-header');
+    header.append(element('h4', state.variant ? `${spec.label} · Variant ${state.variant.label}` : spec.label));
+    if (copy.title) header.append(copyButton('Title', copy.title));
+    header.append(copyButton(spec.titleLimit ? 'Description' : 'Post', postText(copy)));
+    if (copy.longCaption) header.append(copyButton('Long post', postText(copy, copy.longCaption)));
+    card.append(header);
+
+    if (copy.title) card.append(element('h5', `Title (${characterCount(copy.title)}/${spec.titleLimit})`), element('pre', copy.title));
+    card.append(
+        element('h5', `Caption (${characterCount(postText(copy))}/${spec.captionLimit} with hashtags)`),
+        element('pre', copy.caption),
+        element('div', copy.hashtags.join(' '), 'hashtags'),
+    );
+    if (copy.hooks.length) card.append(element('h5', 'Hooks'), options(copy.hooks));
+    if (copy.longCaption) {
+        card.append(
+            element('h5', `Long caption (${characterCount(postText(copy, copy.longCaption))}/${spec.captionLimit} with hashtags)`),
+            element('pre', copy.longCaption),
+        );
+    }
+    if (copy.ctas.length) card.append(element('h5', 'Calls to action'), options(copy.ctas));
+
+    const problems = platformCopyProblems(copy);
+    if (problems.length) {
+        const list = element('ul', '', 'copy-problems');
+        problems.forEach(problem => list.appendChild(element('li', `⚠️ ${problem}`)));
+        card.append(list);
+    }
+    return card;
+}
+
+function renderPostCopy(postCopy: PostCopy) {
+    postCopyContent.replaceChildren(...postCopy.platforms.map(renderPlatformCopy));
+    postCopyView.classList.remove('hidden');
+}
+
+
+// --- Pre-flight Check ---
+function openComplianceIssues(): ComplianceIssue[] {
+    return state.complianceIssues.filter(issue => !state.complianceWaivers.includes(issue.key));
+}
+
+// Re-checks the campaign; called whenever its text or the brand kit's rules change.
+function renderCompliance() {
+    if (!state.storyboard) return;
+    state.complianceIssues = checkCompliance(campaignCopy(state.storyboard, state.endCard, state.postCopy), state.brandKit.rules);
+    const open = openComplianceIssues().length;
+    const waived = state.complianceIssues.length - open;
+    complianceSummary.textContent = open
+        ? `${open} open issue(s)${waived ? `, ${waived} waived` : ''}. "Generate All" is blocked until they're fixed or waived.`
+        : `No open issues${waived ? ` (${waived} waived)` : ''}.`;
+    complianceSummary.classList.toggle('has-issues', open > 0);
+
+    // Built with text nodes rather than markup so model output can't inject HTML.
+    complianceIssuesList.replaceChildren(...state.complianceIssues.map((issue, index) => {
+        const waivedIssue = state.complianceWaivers.includes(issue.key);
+        const item = document.createElement('li');
+        item.className = `compliance-issue${waivedIssue ? ' waived' : ''}`;
+        const text = document.createElement('p');
+        const heading = document.createElement('strong');
+        heading.textContent = `${ISSUE_LABELS[issue.kind]} · ${issue.label}`;
+        text.append(heading, issue.message);
+        item.append(text);
+        if (issue.fixedText !== null && !waivedIssue) {
+            item.insertAdjacentHTML('beforeend', `<button class="secondary-btn" data-compliance-fix="${index}" title="Apply the suggested rewrite">Apply fix</button>`);
+        }
+        item.insertAdjacentHTML('beforeend', waivedIssue
+            ? `<button class="link-btn" data-compliance-waive="${index}">Undo waiver</button>`
+            : `<button class="link-btn" data-compliance-waive="${index}" title="Approve this for the whole campaign">Waive</button>`);
+        return item;
+    }));
+}
+
+function onComplianceIssueClick(event: Event) {
+    const button = (event.target as HTMLElement).closest('button') as HTMLButtonElement | null;
+    if (!button) return;
+    if (button.dataset.complianceWaive) {
+        const { key } = state.complianceIssues[Number(button.dataset.complianceWaive)];
+        state.complianceWaivers = state.complianceWaivers.includes(key)
+            ? state.complianceWaivers.filter(waiver => waiver !== key)
+            : [...state.complianceWaivers, key];
+        renderCompliance();
+        persistCampaign();
+    } else if (button.dataset.complianceFix) {
+        const issue = state.complianceIssues[Number(button.dataset.complianceFix)];
+        applyCopyFix(issue.ref, issue.fixedText!);
+    }
+}
+
+// Writes a suggested rewrite back to the text it came from.
+function applyCopyFix(ref: CopyRef, text: string) {
+    if (ref.source === 'scene') {
+        if (isSceneGenerating(ref.index)) {
+            showError("This scene is still generating. Please wait until it finishes before editing it.");
+            return;
+        }
+        if (ref.field === 'on_screen_text' && countWords(text) > MAX_ON_SCREEN_TEXT_WORDS) {
+            showError(`Scene ${ref.index + 1}: the rewrite would take the on-screen text over ${MAX_ON_SCREEN_TEXT_WORDS} words. Edit it by hand instead.`);
+            return;
+        }
+        const inputId = { visual_prompt: 'prompt', voiceover: 'vo', on_screen_text: 'ost' }[ref.field];
+        (document.getElementById(`${inputId}-${ref.index}`) as HTMLInputElement | HTMLTextAreaElement).value = text;
+        updateSceneField(ref.index, ref.field, text);
+    } else if (ref.source === 'endCard') {
+        setEndCard({ ...state.endCard, [ref.field]: text });
+        renderCompliance();
+        persistCampaign();
+    } else {
+        const copy = state.postCopy!.platforms.find(p => p.platform === ref.platform)!;
+        if ('item' in ref) {
+            // A hook, call to action or hashtag rewritten away entirely is dropped from its list.
+            copy[ref.field].splice(ref.item, 1, ...(text ? [text] : []));
+        } else {
+            copy[ref.field] = text;
+        }
+        renderPostCopy(state.postCopy!);
+        renderCompliance();
+        persistCampaign();
+    }
+}
+
+// --- Usage Ledger ---
+type UsageScope = Pick<UsageRecord, 'campaignId' | 'sceneId'>;
+
+const UNASSIGNED_USAGE: UsageScope = { campaignId: null, sceneId: null };
+
+// Captured when a job starts, so a request that finishes after the user switched campaigns is still
+// charged to the one it was made for.
+function usageScope(sceneId: string | null): UsageScope {
+    return { campaignId: state.campaignId, sceneId };
+}
+
+function usageOutcome(error: unknown, signal?: AbortSignal): UsageOutcome {
+    const aborted = error instanceof CancelledError || (error instanceof Error && error.name === 'AbortError') || !!signal?.aborted;
+    return aborted ? 'cancelled' : 'failed';
+}
+
+/**
+ * Makes one provider request and logs it, whatever its outcome. Call it inside `withRetry` so each
+ * retried attempt is logged as the separate request it is.
+ */
+async function trackUsage<T>(
+    kind: UsageKind,
+    model: string,
+    scope: UsageScope,
+    request: () => Promise<T>,
+    unitsOf: (result: T) => UsageUnits,
+): Promise<T> {
+    const startedAt = Date.now();
+    try {
+        const result = await request();
+        recordUsage({ ...scope, kind, model, units: unitsOf(result), durationMs: Date.now() - startedAt, outcome: 'success' });
+        return result;
+    } catch (error) {
+        recordUsage({ ...scope, kind, model, units: {}, durationMs: Date.now() - startedAt, outcome: usageOutcome(error) });
+        throw error;
+    }
+}
+
+function recordUsage(entry: Omit<UsageRecord, 'id' | 'createdAt'>) {
+    const record: UsageRecord = { ...entry, id: crypto.randomUUID(), createdAt: Date.now() };
+    if (record.campaignId === null) {
+        state.unassignedUsage.push(record);
+    } else if (record.campaignId === state.campaignId) {
+        state.usage.push(record);
+        renderUsage();
+    }
+    saveUsage(record);
+}
+
+function saveUsage(record: UsageRecord) {
+    saveUsageRecord(record).catch(e => console.error('Failed to save usage record:', e));
+}
+
+async function loadPrices() {
+    try {
+        state.prices = { ...DEFAULT_PRICES, ...await loadPriceTable() };
+    } catch (e) {
+        console.error('Failed to load the price table:', e);
+    }
+    renderPriceTable();
+    renderUsage();
+}
+
+// One row of inputs per model the app is configured to use.
+function renderPriceTable() {
+    const models = new Map<string, UsageKind>([
+        [providers.text.model, 'text'],
+        [providers.image.model, 'image'],
+        [providers.video.model, 'video'],
+        [providers.speech.model, 'speech'],
+    ]);
+    priceTable.replaceChildren(...[...models].flatMap(([model, kind]) => PRICE_FIELDS[kind].map(({ field, label }) => {
+        const row = document.createElement('label');
+        row.className = 'panel-field';
+        row.textContent = `${model} ${label}`;
+        const input = document.createElement('input');
+        input.type = 'number';
+        input.min = '0';
+        input.step = 'any';
+        input.dataset.priceModel = model;
+        input.dataset.priceField = field;
+        input.value = String(state.prices[model]?.[field] ?? '');
+        row.append(input);
+        return row;
+    })));
+}
+
+function renderUsage() {
+    const summary = summarizeUsage(state.usage, state.prices);
+    const { budget } = state;
+    usageSummary.textContent = `${formatCost(summary.total)} spent${budget !== null ? ` of a ${formatCost(budget)} budget` : ''} on ${summary.requests} request(s)`
+        + `${summary.failed ? `, ${summary.failed} of them failed` : ''}.`
+        + `${summary.unpriced ? ` ${summary.unpriced} request(s) for models without a price aren't counted.` : ''}`;
+    usageSummary.classList.toggle('over-budget', budget !== null && summary.total > budget);
+    usageBudgetInput.value = budget === null ? '' : String(budget);
+
+    usageBreakdown.replaceChildren(...(Object.keys(USAGE_LABELS) as UsageKind[]).map(kind => {
+        const item = document.createElement('li');
+        item.textContent = `${USAGE_LABELS[kind]}: ${formatCost(summary.byKind[kind].cost)} (${summary.byKind[kind].requests} request(s))`;
+        return item;
+    }));
+
+    state.sceneAssets.forEach((asset, index) => {
+        const badge = document.querySelector(`#scene-card-${index} .scene-cost`);
+        const cost = summary.bySceneId.get(asset.id);
+        if (badge) badge.textContent = cost === undefined ? '' : formatCost(cost);
+    });
+
+    // Newest first. Requests for scenes that have since been deleted still count towards the campaign.
+    const sceneNumbers = new Map(state.sceneAssets.map((asset, index) => [asset.id, index + 1]));
+    usageLogBody.replaceChildren(...[...state.usage].reverse().map(record => {
+        const cost = usageCost(record.model, record.units, state.prices);
+        const scene = record.sceneId === null ? '—' : sceneNumbers.has(record.sceneId) ? `Scene ${sceneNumbers.get(record.sceneId)}` : 'Deleted scene';
+        const row = document.createElement('tr');
+        row.className = `usage-${record.outcome}`;
+        for (const text of [
+            new Date(record.createdAt).toLocaleString(),
+            record.kind,
+            scene,
+            record.model,
+            formatUnits(record.units),
+            `${(record.durationMs / 1000).toFixed(1)}s`,
+            record.outcome,
+            cost === null ? 'No price' : formatCost(cost),
+        ]) {
+            const cell = document.createElement('td');
+            cell.textContent = text;
+            row.append(cell);
+        }
+        return row;
+    }));
+}
+
+function onBudgetChange() {
+    const value = usageBudgetInput.value.trim();
+    state.budget = value === '' ? null : Math.max(0, Number(value));
+    renderUsage();
+    persistCampaign();
+}
+
+function onPriceChange(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const { priceModel, priceField } = input.dataset;
+    if (!priceModel || !priceField) return;
+    const price = input.value.trim() === '' ? undefined : Math.max(0, Number(input.value));
+    state.prices = { ...state.prices, [priceModel]: { ...state.prices[priceModel], [priceField]: price } };
+    renderUsage();
+    savePriceTable(state.prices).catch(e => console.error('Failed to save the price table:', e));
+}
+
+async function loadConcurrency() {
+    try {
+        state.concurrency = { ...DEFAULT_CONCURRENCY, ...await loadConcurrencyLimits() };
+    } catch (e) {
+        console.error('Failed to load the parallel job limits:', e);
+    }
+    renderConcurrencySettings();
+}
+
+function renderConcurrencySettings() {
+    concurrencySettings.replaceChildren(...(Object.keys(USAGE_LABELS) as UsageKind[]).map(kind => {
+        const row = document.createElement('label');
+        row.className = 'panel-field';
+        row.textContent = USAGE_LABELS[kind];
+        const input = document.createElement('input');
+        input.type = 'number';
+        input.min = '1';
+        input.max = String(MAX_CONCURRENCY);
+        input.step = '1';
+        input.dataset.concurrencyKind = kind;
+        input.value = String(state.concurrency[kind]);
+        row.append(input);
+        return row;
+    }));
+}
+
+// Changes apply to the next batch; one that's running keeps its lanes.
+function onConcurrencyChange(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const kind = input.dataset.concurrencyKind as UsageKind | undefined;
+    if (!kind) return;
+    const limit = Math.min(MAX_CONCURRENCY, Math.max(1, Math.round(Number(input.value)) || DEFAULT_CONCURRENCY[kind]));
+    state.concurrency = { ...state.concurrency, [kind]: limit };
+    input.value = String(limit);
+    saveConcurrencyLimits(state.concurrency).catch(e => console.error('Failed to save the parallel job limits:', e));
+}
+
+function estimateAssetCost(kind: AssetKind, scene: Scene): number {
+    if (kind === 'image') return estimateRequestCost('image', providers.image.model, state.prices);
+    if (kind === 'video') {
+        // Veo bills every second of every take.
+        const { durationSeconds, numberOfVideos } = videoOptions(effectiveVideoSettings(scene), state.aspectRatio);
+        return usageCost(providers.video.model, { seconds: durationSeconds * numberOfVideos }, state.prices) ?? 0;
+    }
+    return estimateRequestCost('speech', providers.speech.model, state.prices, scene.voiceover);
+}
+
+// Asks before a batch that's expected to take the campaign over its budget. Retries aren't estimated.
+function confirmWithinBudget(kind: AssetKind, pending: number[]): boolean {
+    if (state.budget === null) return true;
+    const spent = summarizeUsage(state.usage, state.prices).total;
+    const estimate = pending.reduce((total, index) => total + estimateAssetCost(kind, state.storyboard!.scenes[index]), 0);
+    if (spent + estimate <= state.budget) return true;
+    return confirm(`This batch is estimated to cost about ${formatCost(estimate)}, which would bring the campaign to ${formatCost(spent + estimate)}: over its ${formatCost(state.budget)} budget. Generate anyway?`);
+}
+
+// --- Variant Comparison ---
+function onCompareVariants() {
+    if (isBusy()) {
+        showError("Please wait for the current generation to finish before comparing variants.");
+        return;
+    }
+    showVariants();
+}
+
+function showVariants() {
+    state.variantPicks = [];
+    renderVariants();
+    setupView.classList.add('hidden');
+    storyboardView.classList.add('hidden');
+    variantsView.classList.remove('hidden');
+}
+
+function renderVariants() {
+    variantsContainer.innerHTML = '';
+    state.variants.forEach((variant, variantIndex) => {
+        const column = document.createElement('div');
+        column.className = 'variant-column';
+        column.innerHTML = `
+            <h3></h3>
+            <p class="variant-brief"></p>
+            ${variant.storyboard.scenes.map((_, sceneIndex) => `
+                <label class="variant-scene">
+                    <input type="checkbox" data-variant="${variantIndex}" data-scene="${sceneIndex}">
+                    <span class="pick-order hidden"></span>
+                    <span class="variant-scene-body"><strong></strong><span></span><small></small></span>
+                </label>
+            `).join('')}
+            <button class="secondary-btn" data-use-variant="${variantIndex}"></button>
+        `;
+        // Model output goes in as text so markup in it can't break the column.
+        column.querySelector('h3')!.textContent = describeVariant(variant);
+        column.querySelector('.variant-brief')!.textContent = CREATIVE_ANGLES[variant.angle].brief;
+        column.querySelector('[data-use-variant]')!.textContent = `Use Variant ${variant.label}`;
+        column.querySelectorAll('.variant-scene-body').forEach((body, sceneIndex) => {
+            const scene = variant.storyboard.scenes[sceneIndex];
+            const [text, voiceover, visual] = body.children;
+            text.textContent = `${sceneIndex + 1}. ${scene.on_screen_text}`;
+            voiceover.textContent = `🎙 ${scene.voiceover}`;
+            visual.textContent = scene.visual_prompt;
+        });
+        variantsContainer.appendChild(column);
+    });
+    renderVariantPicks();
+}
+
+// Numbers the ticked scenes in the order they'll appear in the mix.
+function renderVariantPicks() {
+    variantsContainer.querySelectorAll<HTMLInputElement>('input[data-variant]').forEach(input => {
+        const order = state.variantPicks.findIndex(pick =>
+            pick.variant === Number(input.dataset.variant) && pick.scene === Number(input.dataset.scene)
+        );
+        const label = input.closest('.variant-scene')!;
+        const badge = label.querySelector('.pick-order')!;
+        input.checked = order >= 0;
+        label.classList.toggle('picked', order >= 0);
+        badge.classList.toggle('hidden', order < 0);
+        badge.textContent = order >= 0 ? String(order + 1) : '';
+    });
+    mergeVariantsBtn.disabled = state.variantPicks.length === 0;
+    mergeVariantsBtn.textContent = state.variantPicks.length
+        ? `Build From ${state.variantPicks.length} Selected Scene${state.variantPicks.length === 1 ? '' : 's'}`
+        : 'Build From Selected Scenes';
+}
+
+function onVariantSceneToggle(event: Event) {
+    const input = event.target as HTMLInputElement;
+    if (!input.dataset.variant) return;
+    const pick = { variant: Number(input.dataset.variant), scene: Number(input.dataset.scene) };
+    state.variantPicks = state.variantPicks.filter(p => p.variant !== pick.variant || p.scene !== pick.scene);
+    if (input.checked) state.variantPicks.push(pick);
+    renderVariantPicks();
+}
+
+function onUseVariantClick(event: Event) {
+    const button = (event.target as HTMLElement).closest('button[data-use-variant]') as HTMLButtonElement | null;
+    if (!button) return;
+    const { label, angle, storyboard } = state.variants[Number(button.dataset.useVariant)];
+    // Scenes are copied so edits in one campaign never leak into the saved variants.
+    startCampaign({ scenes: storyboard.scenes.map(scene => ({ ...scene })) }, { label, angle });
+}
+
+function onMergeVariants() {
+    if (!state.variantPicks.length) return;
+    const { storyboard, variant } = mergeVariantScenes(state.variants, state.variantPicks);
+    startCampaign(storyboard, variant);
+}
+
+// Back to the campaign the comparison was opened from, or to the setup form after generating.
+function onVariantsBack() {
+    variantsView.classList.add('hidden');
+    if (state.campaignId) {
+        storyboardView.classList.remove('hidden');
+    } else {
+        setupView.classList.remove('hidden');
+        renderCampaignList();
+    }
+}
+
+function renderVariantBar() {
+    const badge = document.getElementById('variant-badge')!;
+    badge.classList.toggle('hidden', !state.variant);
+    badge.textContent = state.variant ? describeVariant(state.variant) : '';
+    document.getElementById('compare-variants-btn')!.classList.toggle('hidden', !state.variants.length);
+}
+
+// Tags exported files with the variant, e.g. "automace_ad_B_9x16_2024-05-01.mp4".
+function variantFileTag(): string {
+    return state.variant ? `${state.variant.label}_` : '';
+}
+
+// --- Voice Selection ---
+function defaultVoiceSettings(): VoiceSettings {
+    return { voiceId: PROVIDER_CONFIG.voiceId, stability: 0.5, similarityBoost: 0.75, style: 0 };
+}
+
+function effectiveVoice(scene: Scene): VoiceSettings {
+    return scene.voice ?? state.inputs?.voice ?? defaultVoiceSettings();
+}
+
+function renderVoiceOptions(select: HTMLSelectElement, selectedId: string) {
+    const voices = [...state.voices];
+    // Keep a saved voice selectable even before (or without) the voice list loading.
+    if (!voices.some(v => v.id === selectedId)) {
+        voices.unshift({ id: selectedId, name: selectedId === PROVIDER_CONFIG.voiceId ? 'Rachel (default)' : selectedId, description: '' });
+    }
+    select.innerHTML = '';
+    voices.forEach(voice => {
+        const option = document.createElement('option');
+        option.value = voice.id;
+        option.textContent = voice.description ? `${voice.name} (${voice.description})` : voice.name;
+        select.appendChild(option);
+    });
+    select.value = selectedId;
+}
+
+async function loadVoices() {
+    voiceHint.textContent = 'Loading voices...';
+    try {
+        state.voices = await withRetry(() => providers.speech.listVoices());
+        voiceHint.textContent = `${state.voices.length} voices available.`;
+    } catch (e) {
+        console.error('Failed to load voices:', e);
+        voiceHint.textContent = 'Could not load voices. Check your ElevenLabs API key.';
+        return;
+    }
+    renderVoiceOptions(voiceSelect, voiceSelect.value || PROVIDER_CONFIG.voiceId);
+    storyboardContainer.querySelectorAll<HTMLSelectElement>('select[data-voice-field="voiceId"]').forEach(select => {
+        renderVoiceOptions(select, select.value);
+    });
+}
+
+function onElevenApiKeyChange(event: Event) {
+    const apiKey = (event.target as HTMLInputElement).value.trim();
+    if (!apiKey || !needsElevenLabsKey()) return;
+    state.elevenApiKey = apiKey;
+    loadVoices();
+}
+
+async function auditionVoice(text: string, voice: VoiceSettings, button: HTMLButtonElement, scope: UsageScope) {
+    if (needsElevenLabsKey() && !state.elevenApiKey) {
+        showError("Enter your ElevenLabs API Key to audition voices.");
+        return;
+    }
+    const buttonText = button.textContent;
+    button.disabled = true;
+    button.textContent = 'Loading...';
+    try {
+        const { audio: audioBlob } = await withRetry(() => trackUsage('speech', providers.speech.model, scope, () =>
+            providers.speech.synthesize({ text, voice }), () => ({ characters: [...text].length })));
+        const audioUrl = URL.createObjectURL(audioBlob);
+        voiceoverAudioPlayer.src = audioUrl;
+        voiceoverAudioPlayer.onended = () => URL.revokeObjectURL(audioUrl);
+        await voiceoverAudioPlayer.play();
+    } catch (e) {
+        console.error('Voice audition failed:', e);
+        showError(`Voice audition failed: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+        button.disabled = false;
+        button.textContent = buttonText;
+    }
+}
+
+function onAuditionCampaignVoice() {
+    state.elevenApiKey = (document.getElementById('eleven-api-key') as HTMLInputElement).value || state.elevenApiKey;
+    auditionVoice(AUDITION_TEXT, readCampaignInputs().voice, auditionVoiceBtn, UNASSIGNED_USAGE);
+}
+
+function renderSceneVoiceControls(card: HTMLElement, scene: Scene) {
+    const voice = effectiveVoice(scene);
+    const field = (name: string) => card.querySelector(`[data-voice-field="${name}"]`) as HTMLInputElement;
+    field('enabled').checked = !!scene.voice;
+    renderVoiceOptions(card.querySelector('select[data-voice-field="voiceId"]')!, voice.voiceId);
+    field('stability').value = String(voice.stability);
+    field('similarityBoost').value = String(voice.similarityBoost);
+    field('style').value = String(voice.style);
+    card.querySelector<HTMLElement>('[data-voice-controls]')!.classList.toggle('hidden', !scene.voice);
+    card.querySelector('.voice-override summary')!.textContent = `Voice: ${scene.voice ? 'custom' : 'campaign default'}`;
+}
+
+function onSceneVoiceChange(event: Event) {
+    const field = event.target as HTMLInputElement | HTMLSelectElement;
+    const card = field.closest('.scene-card') as HTMLElement;
+    const index = Number(card.dataset.index);
+    const scene = state.storyboard.scenes[index];
+    if (isSceneGenerating(index)) {
+        renderSceneVoiceControls(card, scene);
+        showError("This scene is still generating. Please wait until it finishes before editing it.");
+        return;
+    }
+
+    const name = field.dataset.voiceField!;
+    if (name === 'enabled') {
+        scene.voice = (field as HTMLInputElement).checked ? { ...effectiveVoice(scene) } : undefined;
+    } else if (scene.voice) {
+        scene.voice = { ...scene.voice, [name]: name === 'voiceId' ? field.value : Number(field.value) };
+    }
+    renderSceneVoiceControls(card, scene);
+
+    // Turning the override on without changing anything doesn't change how the scene sounds.
+    if (name !== 'enabled' || !scene.voice) {
+        resetSceneAsset(index, 'vo');
+        checkAssetGenerationStatus();
+    }
+    persistCampaign();
+}
+
+// --- Video Settings ---
+function effectiveVideoSettings(scene: Scene): VideoSettings {
+    return scene.video ?? state.inputs?.video ?? DEFAULT_VIDEO_SETTINGS;
+}
+
+function renderSceneVideoControls(card: HTMLElement, scene: Scene) {
+    const settings = effectiveVideoSettings(scene);
+    const field = (name: string) => card.querySelector(`[data-video-field="${name}"]`) as HTMLInputElement;
+    field('enabled').checked = !!scene.video;
+    field('durationSeconds').value = String(settings.durationSeconds);
+    field('personGeneration').value = settings.personGeneration;
+    field('takes').value = String(settings.takes);
+    field('seed').value = settings.seed === null ? '' : String(settings.seed);
+    field('negativePrompt').value = settings.negativePrompt;
+    card.querySelector<HTMLElement>('[data-video-controls]')!.classList.toggle('hidden', !scene.video);
+    card.querySelector('.video-override summary')!.textContent = `Video settings: ${scene.video ? 'custom' : 'campaign default'}`;
+}
+
+// Settings apply to the scene's next clips; the takes it already has are kept.
+function onSceneVideoSettingChange(event: Event) {
+    const field = event.target as HTMLInputElement | HTMLSelectElement;
+    const card = field.closest('.scene-card') as HTMLElement;
+    const scene = state.storyboard.scenes[Number(card.dataset.index)];
+
+    const name = field.dataset.videoField!;
+    if (name === 'enabled') {
+        scene.video = (field as HTMLInputElement).checked ? { ...effectiveVideoSettings(scene) } : undefined;
+    } else if (scene.video) {
+        const value = name === 'seed' ? parseSeed(field.value)
+            : name === 'durationSeconds' || name === 'takes' ? Number(field.value)
+            : field.value;
+        scene.video = { ...scene.video, [name]: value };
+    }
+    renderSceneVideoControls(card, scene);
+    persistCampaign();
+}
+
+// --- Scene Transitions & Text Animations ---
+function renderLabelOptions(labels: Record<string, string>): string {
+    return Object.entries(labels).map(([value, label]) => `<option value="${value}">${label}</option>`).join('');
+}
+
+function renderSceneMotionControls(card: HTMLElement, scene: Scene, isLastScene: boolean) {
+    const field = (name: string) => card.querySelector(`[data-motion-field="${name}"]`) as HTMLInputElement | HTMLSelectElement;
+    const animations = scene.textAnimations ?? NO_TEXT_ANIMATION;
+    const transition = scene.transition ?? HARD_CUT;
+    field('enter').value = animations.enter;
+    field('exit').value = animations.exit;
+    field('kind').value = transition.kind;
+    field('color').value = transition.color;
+    // The last scene hands over to the end card, which always cuts in.
+    card.querySelector('[data-transition-controls]')!.classList.toggle('hidden', isLastScene);
+    field('color').classList.toggle('hidden', isLastScene || transition.kind !== 'dip');
+}
+
+// Transitions and text animations are applied at playback time, so no assets need regenerating.
+function onSceneMotionChange(event: Event) {
+    const field = event.target as HTMLInputElement | HTMLSelectElement;
+    const card = field.closest('.scene-card') as HTMLElement;
+    const index = Number(card.dataset.index);
+    const scene = state.storyboard.scenes[index];
+
+    const name = field.dataset.motionField!;
+    if (name === 'enter' || name === 'exit') {
+        scene.textAnimations = { ...(scene.textAnimations ?? NO_TEXT_ANIMATION), [name]: field.value as TextAnimation };
+    } else {
+        scene.transition = { ...(scene.transition ?? HARD_CUT), [name]: field.value };
+    }
+    renderSceneMotionControls(card, scene, index === state.storyboard.scenes.length - 1);
+    persistCampaign();
+}
+
+// --- Reference Photos ---
+async function onReferenceFilesChange() {
+    const files = [...referenceFilesInput.files ?? []];
+    referenceFilesInput.value = '';
+    if (!files.length) return;
+    const unreadable: string[] = [];
+    for (const file of files) {
+        try {
+            state.references.push(await readReferenceImage(file));
+        } catch (e) {
+            console.error(`Failed to read reference photo "${file.name}":`, e);
+            unreadable.push(`"${file.name}"`);
+        }
+    }
+    renderReferenceControls();
+    persistCampaign();
+    if (unreadable.length) showError(`${unreadable.join(', ')} couldn't be read as an image.`);
+}
+
+function onReferenceListClick(event: Event) {
+    const button = (event.target as HTMLElement).closest('button[data-reference-action]') as HTMLButtonElement | null;
+    if (!button || !state.storyboard) return;
+    const id = (button.closest('[data-reference-id]') as HTMLElement).dataset.referenceId!;
+    const scenes = state.storyboard.scenes;
+
+    if (button.dataset.referenceAction === 'remove') {
+        state.references = state.references.filter(reference => reference.id !== id);
+        scenes.forEach(scene => {
+            if (scene.references) scene.references = scene.references.filter(ref => ref !== id);
+        });
+    } else {
+        const missing = scenes.filter(scene => !scene.references?.includes(id));
+        const full = missing.filter(scene => (scene.references?.length ?? 0) >= MAX_SCENE_REFERENCES);
+        missing.filter(scene => !full.includes(scene)).forEach(scene => {
+            scene.references = [...(scene.references ?? []), id];
+        });
+        if (full.length) {
+            showError(`Scene(s) ${full.map(scene => scene.id).join(', ')} already have ${MAX_SCENE_REFERENCES} reference photos, so this one wasn't added to them.`);
+        }
+    }
+    renderReferenceControls();
+    persistCampaign();
+}
+
+// The campaign's photos, and every scene card's picker.
+function renderReferenceControls() {
+    referenceList.replaceChildren(...state.references.map(reference => {
+        const item = document.createElement('li');
+        item.className = 'reference-item';
+        item.dataset.referenceId = reference.id;
+        const image = document.createElement('img');
+        image.src = referenceImageUrl(reference);
+        image.alt = '';
+        const name = document.createElement('span');
+        name.textContent = reference.name;
+        item.append(image, name);
+        item.insertAdjacentHTML('beforeend', `
+            <button class="link-btn" data-reference-action="all">Use in every scene</button>
+            <button class="link-btn" data-reference-action="remove">Remove</button>`);
+        return item;
+    }));
+    storyboardContainer.querySelectorAll<HTMLElement>('.scene-card').forEach(card => {
+        const index = Number(card.dataset.index);
+        renderSceneReferenceControls(card, state.storyboard!.scenes[index], index);
+    });
+}
+
+function renderSceneReferenceControls(card: HTMLElement, scene: Scene, index: number) {
+    const selected = scene.references ?? [];
+    const matchesPrevious = index > 0 && !!scene.matchPreviousScene;
+    card.querySelector('.scene-references summary')!.textContent =
+        `Reference photos: ${selected.length || 'none'}${matchesPrevious ? ', matching the previous scene' : ''}`;
+
+    const picker = card.querySelector('[data-reference-picker]')!;
+    picker.replaceChildren(...state.references.map(reference => {
+        const option = document.createElement('label');
+        option.className = 'reference-option';
+        option.title = reference.name;
+        const checkbox = document.createElement('input');
+        checkbox.type = 'checkbox';
+        checkbox.dataset.referenceField = 'photo';
+        checkbox.dataset.referenceId = reference.id;
+        checkbox.checked = selected.includes(reference.id);
+        const image = document.createElement('img');
+        image.src = referenceImageUrl(reference);
+        image.alt = reference.name;
+        option.append(checkbox, image);
+        return option;
+    }));
+    if (!state.references.length) picker.textContent = 'Add product or reference photos above to use them in this scene.';
+
+    (card.querySelector('[data-reference-field="matchPrevious"]') as HTMLInputElement).checked = matchesPrevious;
+    // The first scene has nothing to match.
+    card.querySelector('[data-match-previous-control]')!.classList.toggle('hidden', index === 0);
+}
+
+// Reference changes apply to the scene's next image take; the current one is kept.
+function onSceneReferenceChange(event: Event) {
+    const field = event.target as HTMLInputElement;
+    const card = field.closest('.scene-card') as HTMLElement;
+    const index = Number(card.dataset.index);
+    const scene = state.storyboard.scenes[index];
+
+    if (field.dataset.referenceField === 'matchPrevious') {
+        scene.matchPreviousScene = field.checked || undefined;
+    } else {
+        const id = field.dataset.referenceId!;
+        const others = (scene.references ?? []).filter(ref => ref !== id);
+        if (field.checked && others.length >= MAX_SCENE_REFERENCES) {
+            field.checked = false;
+            showError(`Scene ${index + 1}: up to ${MAX_SCENE_REFERENCES} reference photos can be sent with a scene.`);
+            return;
+        }
+        scene.references = field.checked ? [...others, id] : others;
+    }
+    renderSceneReferenceControls(card, scene, index);
+    persistCampaign();
+}
+
+// --- Background Music ---
+async function loadMusicLibrary() {
+    try {
+        state.musicTracks = await listMusicTracks();
+    } catch (e) {
+        console.error('Failed to load the music library:', e);
+    }
+    renderMusicControls();
+}
+
+function renderMusicControls() {
+    const tracks = state.musicTracks.map(track => ({ id: track.id, name: track.name }));
+    // A campaign keeps its own copy of the music, so it stays selectable after leaving the library.
+    if (state.music && !tracks.some(track => track.id === state.music!.trackId)) {
+        tracks.push({ id: state.music.trackId, name: state.music.name });
+    }
+    musicTrackSelect.innerHTML = '<option value="">No music</option>';
+    tracks.forEach(track => {
+        const option = document.createElement('option');
+        option.value = track.id;
+        option.textContent = track.name;
+        musicTrackSelect.appendChild(option);
+    });
+    musicTrackSelect.value = state.music?.trackId ?? '';
+    musicVolumeInput.value = String(state.music?.volume ?? DEFAULT_MUSIC_VOLUME);
+    musicVolumeInput.disabled = !state.music;
+    deleteMusicTrackBtn.disabled = !state.musicTracks.some(track => track.id === musicTrackSelect.value);
+}
+
+function setMusic(track: MusicTrack | null) {
+    state.music = track
+        ? { trackId: track.id, name: track.name, blob: track.blob, volume: state.music?.volume ?? DEFAULT_MUSIC_VOLUME }
+        : null;
+    renderMusicControls();
+    persistCampaign();
+}
+
+function onMusicTrackChange() {
+    const trackId = musicTrackSelect.value;
+    if (trackId === (state.music?.trackId ?? '')) return;
+    setMusic(state.musicTracks.find(track => track.id === trackId) ?? null);
+}
+
+async function onMusicFileChange() {
+    const file = musicFileInput.files?.[0];
+    musicFileInput.value = '';
+    if (!file) return;
+
+    try {
+        await decodeAudio(new OfflineAudioContext(1, 1, 44100), file);
+    } catch (e) {
+        console.error('Failed to decode music track:', e);
+        showError(`"${file.name}" couldn't be read as audio. Try an MP3, WAV or OGG file.`);
+        return;
+    }
+
+    const track: MusicTrack = {
+        id: crypto.randomUUID(),
+        name: file.name.replace(/\.[^.]+$/, ''),
+        blob: file,
+        addedAt: Date.now(),
+    };
+    saveMusicTrack(track).catch(e => console.error('Failed to save music track:', e));
+    state.musicTracks = [...state.musicTracks, track].sort((a, b) => a.name.localeCompare(b.name));
+    setMusic(track);
+}
+
+// Only removes the track from the library: campaigns that use it keep their own copy.
+async function onDeleteMusicTrack() {
+    const track = state.musicTracks.find(t => t.id === musicTrackSelect.value);
+    if (!track) return;
+    if (!confirm(`Delete "${track.name}" from your music library? Campaigns that use it keep their music.`)) return;
+    try {
+        await deleteMusicTrack(track.id);
+    } catch (error) {
+        console.error(error);
+        showError("Failed to delete the music track. Please check the console for details.");
+        return;
+    }
+    state.musicTracks = state.musicTracks.filter(t => t.id !== track.id);
+    renderMusicControls();
+}
+
+function onMusicVolumeChange() {
+    if (!state.music) return;
+    state.music = { ...state.music, volume: Number(musicVolumeInput.value) };
+    persistCampaign();
+}
+
+// --- Brand Kit ---
+// A font that fails to load falls back to the app font rather than blocking rendering.
+async function currentBrandStyle(): Promise<BrandStyle> {
+    try {
+        return await resolveBrandStyle(state.brandKit);
+    } catch (e) {
+        console.error('Failed to load the brand font:', e);
+        return resolveBrandStyle({ ...state.brandKit, font: null });
+    }
+}
+
+async function loadBrandKitLibrary() {
+    try {
+        // Kits saved before a field existed get its default.
+        state.brandKits = (await listBrandKits()).map(kit => ({ ...DEFAULT_BRAND_KIT, ...kit }));
+    } catch (e) {
+        console.error('Failed to load brand kits:', e);
+    }
+    renderBrandKitControls();
+}
+
+function renderBrandKitControls() {
+    const kit = state.brandKit;
+    const kits = [DEFAULT_BRAND_KIT, ...state.brandKits];
+    // The campaign's copy stays selectable after its kit is removed from the library.
+    if (!kits.some(k => k.id === kit.id)) kits.push(kit);
+    brandKitSelect.innerHTML = '';
+    kits.forEach(k => {
+        const option = document.createElement('option');
+        option.value = k.id;
+        option.textContent = k.name;
+        brandKitSelect.appendChild(option);
+    });
+    brandKitSelect.value = kit.id;
+    brandKitNameInput.value = kit.id === DEFAULT_BRAND_KIT.id ? '' : kit.name;
+    deleteBrandKitBtn.disabled = !state.brandKits.some(k => k.id === kit.id);
+
+    brandKitPanel.querySelectorAll<HTMLInputElement | HTMLSelectElement>('[data-brand-field]').forEach(field => {
+        field.value = String(kit[field.dataset.brandField as keyof BrandKit] ?? '');
+    });
+    brandKitPanel.querySelectorAll<HTMLTextAreaElement>('[data-brand-rule]').forEach(field => {
+        field.value = kit.rules[field.dataset.brandRule as keyof BrandRules].join('\n');
+    });
+    brandFontName.textContent = kit.font?.name ?? 'App default';
+}
+
+function updateBrandKit(changes: Partial<BrandKit>) {
+    state.brandKit = { ...state.brandKit, ...changes };
+    persistCampaign();
+}
+
+function onBrandFieldChange(event: Event) {
+    const field = event.target as HTMLInputElement | HTMLSelectElement;
+    const rule = field.dataset.brandRule as keyof BrandRules | undefined;
+    if (rule) {
+        const lines = field.value.split('\n').map(line => line.trim()).filter(Boolean);
+        updateBrandKit({ rules: { ...state.brandKit.rules, [rule]: lines } });
+        renderCompliance();
+        return;
+    }
+    const key = field.dataset.brandField as keyof BrandKit | undefined;
+    if (!key) return;
+    updateBrandKit({ [key]: field.type === 'range' ? Number(field.value) : field.value });
+}
+
+function onBrandKitSelect() {
+    const kit = [DEFAULT_BRAND_KIT, ...state.brandKits].find(k => k.id === brandKitSelect.value);
+    if (!kit) return;
+    state.brandKit = { ...kit };
+    renderBrandKitControls();
+    renderCompliance();
+    persistCampaign();
+}
+
+async function onBrandFontChange() {
+    const file = brandFontFileInput.files?.[0];
+    brandFontFileInput.value = '';
+    if (!file) return;
+
+    const font = { name: file.name, blob: file };
+    try {
+        await resolveBrandStyle({ ...state.brandKit, font });
+    } catch (e) {
+        console.error('Failed to load font:', e);
+        showError(`"${file.name}" couldn't be loaded as a font. Try a TTF, OTF or WOFF file.`);
+        return;
+    }
+    updateBrandKit({ font });
+    renderBrandKitControls();
+}
+
+function onClearBrandFont() {
+    updateBrandKit({ font: null });
+    renderBrandKitControls();
+}
+
+// Saving under an existing kit's name overwrites that kit; any other name adds a new one.
+function onSaveBrandKit() {
+    const name = brandKitNameInput.value.trim();
+    if (!name) {
+        showError("Give the brand kit a name to save it.");
+        return;
+    }
+    const existing = state.brandKits.find(k => k.name === name);
+    const kit: BrandKit = { ...state.brandKit, id: existing?.id ?? crypto.randomUUID(), name };
+    saveBrandKit(kit).catch(e => console.error('Failed to save brand kit:', e));
+    state.brandKits = [...state.brandKits.filter(k => k.id !== kit.id), kit].sort((a, b) => a.name.localeCompare(b.name));
+    state.brandKit = kit;
+    renderBrandKitControls();
+    persistCampaign();
+}
+
+// Only removes the kit from the saved kits: campaigns that use it keep their own copy.
+async function onDeleteBrandKit() {
+    const kit = state.brandKits.find(k => k.id === state.brandKit.id);
+    if (!kit) return;
+    if (!confirm(`Delete the brand kit "${kit.name}"? Campaigns that use it keep their styling.`)) return;
+    try {
+        await deleteBrandKit(kit.id);
+    } catch (error) {
+        console.error(error);
+        showError("Failed to delete the brand kit. Please check the console for details.");
+        return;
+    }
+    state.brandKits = state.brandKits.filter(k => k.id !== kit.id);
+    renderBrandKitControls();
+}
+
+function placeOverlay(element: HTMLElement, corner: Corner) {
+    const [vertical, horizontal] = corner.split('-');
+    element.style.top = vertical === 'top' ? '20px' : 'auto';
+    element.style.bottom = vertical === 'bottom' ? '20px' : 'auto';
+    element.style.left = horizontal === 'left' ? '20px' : 'auto';
+    element.style.right = horizontal === 'right' ? '20px' : 'auto';
+}
+
+async function applyBrandKitToPreview(videoWrapper: HTMLElement) {
+    const { kit, fontFamily } = await currentBrandStyle();
+    videoWrapper.style.setProperty('--brand-primary', kit.primaryColor);
+    videoWrapper.style.setProperty('--brand-secondary', kit.secondaryColor);
+    videoWrapper.style.setProperty('--brand-accent', kit.accentColor);
+    videoWrapper.style.setProperty('--brand-font', fontFamily);
+    videoWrapper.dataset.textStyle = kit.textStyle;
+    placeOverlay(logoOverlay, kit.logoPosition);
+    logoOverlay.style.maxWidth = `${kit.logoScale * 100}%`;
+    logoOverlay.style.maxHeight = `${kit.logoScale * 50}%`;
+    placeOverlay(watermarkOverlay, kit.watermarkPosition);
+    watermarkOverlay.style.color = withOpacity(kit.primaryColor, kit.watermarkOpacity);
+    endCardTagline.textContent = kit.tagline;
+}
+
+// --- End Card ---
+function currentEndCardSeconds(): number {
+    return endCardSeconds(state.endCard, !!state.logo.objectURL, state.brandKit.tagline);
+}
+
+function setEndCard(endCard: EndCard) {
+    if (endCard.backgroundImage !== state.endCard.backgroundImage) {
+        if (state.endCardImageUrl) URL.revokeObjectURL(state.endCardImageUrl);
+        state.endCardImageUrl = endCard.backgroundImage ? URL.createObjectURL(endCard.backgroundImage) : null;
+    }
+    state.endCard = endCard;
+    renderEndCardControls();
+}
+
+function renderEndCardControls() {
+    const { endCard } = state;
+    endCardPanel.querySelectorAll<HTMLInputElement | HTMLSelectElement>('[data-end-card-field]').forEach(field => {
+        const value = endCard[field.dataset.endCardField as keyof EndCard];
+        if (field instanceof HTMLInputElement && field.type === 'checkbox') {
+            field.checked = !!value;
+        } else {
+            field.value = String(value ?? '');
+        }
+    });
+    endCardPanel.querySelectorAll<HTMLElement>('[data-end-card-background]').forEach(row => {
+        row.classList.toggle('hidden', row.dataset.endCardBackground !== endCard.background);
+    });
+    document.getElementById('end-card-image-name')!.textContent = endCard.backgroundImage ? 'Uploaded' : 'None';
+}
+
+function onEndCardFieldChange(event: Event) {
+    const field = event.target as HTMLInputElement | HTMLSelectElement;
+    const key = field.dataset.endCardField as keyof EndCard | undefined;
+    if (!key) return;
+    if (key === 'url' && field.value.trim() && !normalizeUrl(field.value)) {
+        showError(`"${field.value}" doesn't look like a website address.`);
+        field.value = state.endCard.url;
+        return;
+    }
+    const value = field instanceof HTMLInputElement && field.type === 'checkbox'
+        ? field.checked
+        : key === 'duration' ? Number(field.value) : field.value;
+    setEndCard({ ...state.endCard, [key]: value });
+    renderCompliance();
+    persistCampaign();
+}
+
+async function onEndCardImageChange() {
+    const file = endCardImageInput.files?.[0];
+    endCardImageInput.value = '';
+    if (!file) return;
+    const url = URL.createObjectURL(file);
+    try {
+        await loadImage(url);
+    } catch (e) {
+        console.error('Failed to load end card image:', e);
+        showError(`"${file.name}" couldn't be read as an image.`);
+        return;
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+    setEndCard({ ...state.endCard, background: 'image', backgroundImage: file });
+    persistCampaign();
+}
+
+// Rejects when the clip can't be played (a revoked URL, an unsupported codec) or never loads.
+function loadVideoData(video: HTMLVideoElement, sceneNumber: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const finish = (error?: Error) => {
+            clearTimeout(timer);
+            video.onloadeddata = video.onerror = null;
+            error ? reject(error) : resolve();
+        };
+        const timer = setTimeout(() => finish(new Error(`Scene ${sceneNumber}'s clip took too long to load.`)), CLIP_LOAD_TIMEOUT_MS);
+        video.onloadeddata = () => finish();
+        video.onerror = () => finish(new Error(`Scene ${sceneNumber}'s clip couldn't be loaded: ${video.error?.message || 'unsupported or missing file'}.`));
+    });
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+    const image = new Image();
+    image.src = src;
+    return image.decode().then(() => image);
+}
+
+// Mirrors `drawEndCard`: background, logo, tagline, call to action, offer, QR code and website.
+function applyEndCardToPreview() {
+    const { endCard, brandKit } = state;
+    const url = normalizeUrl(endCard.url);
+    const image = endCard.background === 'image' ? state.endCardImageUrl : null;
+    const scrim = withOpacity(brandKit.secondaryColor, END_CARD_SCRIM_OPACITY);
+    endCardOverlay.style.backgroundColor = endCard.background === 'color' ? endCard.backgroundColor : brandKit.endCardColor;
+    endCardOverlay.style.backgroundImage = image ? `linear-gradient(${scrim}, ${scrim}), url("${image}")` : 'none';
+    endCardLogo.classList.toggle('hidden', !state.logo.objectURL);
+    endCardLogo.src = state.logo.objectURL || '';
+    document.getElementById('end-card-cta')!.textContent = endCard.cta;
+    document.getElementById('end-card-offer')!.textContent = endCard.offer;
+    document.getElementById('end-card-url')!.textContent = url ? displayUrl(url) : '';
+    document.getElementById('end-card-qr')!.replaceChildren(...(url && endCard.showQrCode ? [renderQrCode(trackVariantUrl(url, state.variant))] : []));
+}
+
+// --- Templates ---
+const BLANK_TEMPLATE_HINT = templateHint.textContent ?? '';
+
+async function loadTemplateLibrary() {
+    try {
+        state.templates = await listTemplates();
+    } catch (e) {
+        console.error('Failed to load templates:', e);
+    }
+    renderTemplateControls();
+}
+
+function renderTemplateControls() {
+    templateSelect.innerHTML = '<option value="">No template</option>';
+    const addGroup = (label: string, templates: CampaignTemplate[]) => {
+        const group = document.createElement('optgroup');
+        group.label = label;
+        templates.forEach(template => {
+            const option = document.createElement('option');
+            option.value = template.id;
+            option.textContent = template.name;
+            group.appendChild(option);
+        });
+        templateSelect.appendChild(group);
+    };
+    addGroup('Built-in', BUILT_IN_TEMPLATES);
+    if (state.templates.length) addGroup('Saved', state.templates);
+    templateSelect.value = state.template?.id ?? '';
+
+    const template = state.template;
+    (document.getElementById('export-template-btn') as HTMLButtonElement).disabled = !template;
+    (document.getElementById('delete-template-btn') as HTMLButtonElement).disabled = !state.templates.some(t => t.id === template?.id);
+    templateHint.textContent = template
+        ? [
+            template.scenes.length ? `Scenes: ${template.scenes.map(scene => scene.role).join(' → ')}` : '',
+            template.brandKit ? `Brand kit: ${template.brandKit.name}` : '',
+        ].filter(Boolean).join(' · ') || 'This template only pre-fills the form.'
+        : BLANK_TEMPLATE_HINT;
+}
+
+// Fills in the fields the template sets; the product description and anything it leaves out are kept.
+function applyTemplateInputs(template: CampaignTemplate) {
+    const current = readCampaignInputs();
+    writeCampaignInputs({
+        ...current,
+        ...template.inputs,
+        voice: { ...current.voice, ...template.inputs.voice },
+        video: { ...current.video, ...template.inputs.video },
+    });
+    if (template.scenes.length) {
+        (document.getElementById('scenes-wanted') as HTMLInputElement).value = String(template.scenes.length);
+    }
+}
+
+function onTemplateSelect() {
+    state.template = [...BUILT_IN_TEMPLATES, ...state.templates].find(t => t.id === templateSelect.value) ?? null;
+    if (state.template) applyTemplateInputs(state.template);
+    renderTemplateControls();
+}
+
+function addTemplate(template: CampaignTemplate) {
+    saveTemplate(template).catch(e => console.error('Failed to save template:', e));
+    state.templates = [...state.templates.filter(t => t.id !== template.id), template].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Saving under an existing template's name overwrites that template; any other name adds a new one.
+function onSaveTemplate(event: Event) {
+    if (!state.inputs || !state.storyboard) return;
+    const sceneCount = state.storyboard.scenes.length;
+    if (sceneCount < MIN_TEMPLATE_SCENES || sceneCount > MAX_TEMPLATE_SCENES) {
+        showError(`Templates need between ${MIN_TEMPLATE_SCENES} and ${MAX_TEMPLATE_SCENES} scenes; this storyboard has ${sceneCount}.`);
+        return;
+    }
+    const name = prompt("Name this template:", state.template?.name ?? '')?.trim();
+    if (!name) return;
+
+    const existing = state.templates.find(t => t.name === name);
+    const template = templateFromCampaign(name, state.inputs, state.storyboard, state.brandKit);
+    if (existing) template.id = existing.id;
+    addTemplate(template);
+    state.template = template;
+    renderTemplateControls();
+
+    const button = event.currentTarget as HTMLButtonElement;
+    button.textContent = 'Template saved!';
+    setTimeout(() => { button.textContent = 'Save as template'; }, 2000);
+}
+
+async function onImportTemplate(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+
+    try {
+        const template = await importTemplate(await file.text());
+        addTemplate(template);
+        state.template = template;
+        applyTemplateInputs(template);
+        renderTemplateControls();
+    } catch (error) {
+        console.error(error);
+        showError(error instanceof TemplateImportError
+            ? `"${file.name}" couldn't be imported: ${error.message}`
+            : `"${file.name}" couldn't be imported. Please check the console for details.`);
+    }
+}
+
+async function onExportTemplate() {
+    if (!state.template) return;
+    try {
+        const json = await exportTemplate(state.template);
+        const slug = state.template.name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'template';
+        downloadBlob(new Blob([json], { type: 'application/json' }), `automace_template_${slug}.json`);
+    } catch (error) {
+        console.error(error);
+        showError("Failed to export the template. Please check the console for details.");
+    }
+}
+
+async function onDeleteTemplate() {
+    const template = state.template;
+    if (!template || !state.templates.some(t => t.id === template.id)) return;
+    if (!confirm(`Delete the template "${template.name}"?`)) return;
+    try {
+        await deleteTemplate(template.id);
+    } catch (error) {
+        console.error(error);
+        showError("Failed to delete the template. Please check the console for details.");
+        return;
+    }
+    state.templates = state.templates.filter(t => t.id !== template.id);
+    state.template = null;
+    renderTemplateControls();
+}
+
+// --- Campaign Persistence ---
+function readCampaignInputs(): CampaignInputs {
+    const formData = new FormData(campaignForm);
+    return {
+        productDesc: formData.get('product-desc') as string,
+        targetAudience: formData.get('target-audience') as string,
+        format: formData.get('format') as AspectRatio,
+        scenesWanted: Number(formData.get('scenes-wanted')),
+        watermarkText: formData.get('watermark-text') as string,
+        language: formData.get('language') as string,
+        voice: {
+            voiceId: formData.get('voice-id') as string || PROVIDER_CONFIG.voiceId,
+            stability: Number(formData.get('voice-stability')),
+            similarityBoost: Number(formData.get('voice-similarity')),
+            style: Number(formData.get('voice-style')),
+        },
+        videoFit: formData.get('video-fit') as VideoFit,
+        video: {
+            durationSeconds: Number(formData.get('video-duration')),
+            negativePrompt: formData.get('video-negative-prompt') as string,
+            personGeneration: formData.get('video-person-generation') as PersonGeneration,
+            seed: parseSeed(formData.get('video-seed') as string),
+            takes: Number(formData.get('video-takes')),
+        },
+        captions: formData.get('captions') === 'on',
+    };
+}
+
+// Campaigns saved before a field existed get its default.
+function withInputDefaults(inputs: Partial<CampaignInputs>): CampaignInputs {
+    return {
+        productDesc: '',
+        targetAudience: '',
+        format: '9:16',
+        scenesWanted: 3,
+        watermarkText: '',
+        language: 'English',
+        videoFit: 'loop',
+        captions: true,
+        ...inputs,
+        voice: { ...defaultVoiceSettings(), ...inputs.voice },
+        video: { ...DEFAULT_VIDEO_SETTINGS, ...inputs.video },
+    };
+}
+
+function writeCampaignInputs(inputs: CampaignInputs) {
+    (document.getElementById('product-desc') as HTMLTextAreaElement).value = inputs.productDesc;
+    (document.getElementById('target-audience') as HTMLInputElement).value = inputs.targetAudience;
+    (document.getElementById('format') as HTMLSelectElement).value = inputs.format;
+    (document.getElementById('scenes-wanted') as HTMLInputElement).value = String(inputs.scenesWanted);
+    (document.getElementById('watermark-text') as HTMLInputElement).value = inputs.watermarkText;
+    (document.getElementById('language') as HTMLSelectElement).value = inputs.language;
+    (document.getElementById('video-fit') as HTMLSelectElement).value = inputs.videoFit;
+    (document.getElementById('captions') as HTMLInputElement).checked = inputs.captions;
+    renderVoiceOptions(voiceSelect, inputs.voice.voiceId);
+    (document.getElementById('voice-stability') as HTMLInputElement).value = String(inputs.voice.stability);
+    (document.getElementById('voice-similarity') as HTMLInputElement).value = String(inputs.voice.similarityBoost);
+    (document.getElementById('voice-style') as HTMLInputElement).value = String(inputs.voice.style);
+    writeCampaignVideoSettings(inputs.video);
+}
+
+function writeCampaignVideoSettings(settings: VideoSettings) {
+    (document.getElementById('video-duration') as HTMLSelectElement).value = String(settings.durationSeconds);
+    (document.getElementById('video-person-generation') as HTMLSelectElement).value = settings.personGeneration;
+    (document.getElementById('video-takes') as HTMLSelectElement).value = String(settings.takes);
+    (document.getElementById('video-seed') as HTMLInputElement).value = settings.seed === null ? '' : String(settings.seed);
+    (document.getElementById('video-negative-prompt') as HTMLInputElement).value = settings.negativePrompt;
+}
+
+function persistCampaign() {
+    // The record is built synchronously so that overlapping saves always land in call order.
+    const campaign = currentCampaignRecord();
+    if (!campaign) return;
+    saveCampaign(campaign).catch(e => console.error('Failed to save campaign:', e));
+}
+
+// The open campaign as it's saved; null when no campaign is open.
+function currentCampaignRecord(): StoredCampaign | null {
+    if (!state.campaignId || !state.inputs || !state.storyboard) return null;
+    return {
+        id: state.campaignId,
+        name: `${state.inputs.productDesc.slice(0, 60) || 'Untitled campaign'}${state.variant ? ` (Variant ${state.variant.label})` : ''}`,
+        createdAt: state.campaignCreatedAt,
+        updatedAt: Date.now(),
+        inputs: state.inputs,
+        logo: state.logo.base64 ? { base64: state.logo.base64, mimeType: state.logo.mimeType! } : null,
+        storyboard: state.storyboard,
+        sceneAssets: state.sceneAssets.map(toStoredSceneAsset),
+        postCopy: state.postCopy,
+        music: state.music,
+        brandKit: state.brandKit,
+        endCard: state.endCard,
+        variant: state.variant,
+        variants: state.variants,
+        complianceWaivers: state.complianceWaivers,
+        budget: state.budget,
+        references: state.references,
+    };
+}
+
+function toStoredSceneAsset({ audioUrl, videoUrl, ...asset }: SceneAsset): StoredSceneAsset {
+    return {
+        ...asset,
+        userMedia: asset.userMedia && { ...asset.userMedia, url: undefined },
+        videoVariants: asset.videoVariants?.map(({ videoUrl, ...variant }) => variant),
+        voVariants: asset.voVariants?.map(({ audioUrl, ...variant }) => variant),
+    };
+}
+
+function restoreSceneAsset(stored: StoredSceneAsset): SceneAsset {
+    // Scenes saved before the usage ledger have no id yet.
+    const asset: SceneAsset = { ...stored, id: stored.id ?? crypto.randomUUID() };
+    // Requests that were in flight when the campaign was saved are gone; queue them up again.
+    if (asset.imageStatus === 'generating') asset.imageStatus = 'ready';
+    if (asset.videoStatus === 'generating') asset.videoStatus = 'ready';
+    if (asset.voStatus === 'generating') asset.voStatus = 'ready';
+
+    // Campaigns saved before variant history existed only have the selected take.
+    if (!asset.imageVariants && asset.imageUrl && asset.imageB64) {
+        asset.imageVariants = [{ imageUrl: asset.imageUrl, imageB64: asset.imageB64, createdAt: Date.now() }];
+    }
+    if (!asset.videoVariants && asset.videoBlob) {
+        asset.videoVariants = [{ videoBlob: asset.videoBlob, createdAt: Date.now() }];
+    }
+    if (!asset.voVariants && asset.audioBlob) {
+        asset.voVariants = [{ audioBlob: asset.audioBlob, createdAt: Date.now() }];
+    }
+
+    // The selected take is the same Blob instance as one of the variants, so they share a URL.
+    asset.videoVariants = asset.videoVariants?.map(v => ({ ...v, videoUrl: URL.createObjectURL(v.videoBlob) }));
+    asset.voVariants = asset.voVariants?.map(v => ({ ...v, audioUrl: URL.createObjectURL(v.audioBlob) }));
+    asset.videoUrl = asset.videoVariants?.find(v => v.videoBlob === asset.videoBlob)?.videoUrl;
+    asset.audioUrl = asset.voVariants?.find(v => v.audioBlob === asset.audioBlob)?.audioUrl;
+    if (asset.userMedia) asset.userMedia = { ...asset.userMedia, url: URL.createObjectURL(asset.userMedia.blob) };
+
+    if (!asset.audioUrl && asset.voStatus === 'complete') asset.voStatus = 'ready';
+    if (!asset.videoUrl && asset.videoStatus === 'complete') asset.videoStatus = 'ready';
+    return asset;
+}
+
+function revokeAssetUrls(asset: SceneAsset) {
+    asset.videoVariants?.forEach(v => v.videoUrl && URL.revokeObjectURL(v.videoUrl));
+    asset.voVariants?.forEach(v => v.audioUrl && URL.revokeObjectURL(v.audioUrl));
+    if (asset.userMedia?.url) URL.revokeObjectURL(asset.userMedia.url);
+}
+
+function revokeSceneAssetUrls() {
+    state.sceneAssets.forEach(revokeAssetUrls);
+}
+
+function restoreSceneCard(index: number) {
+    const asset = state.sceneAssets[index];
+    updateCardStatus(index, 'image', asset.imageStatus);
+    updateCardStatus(index, 'video', asset.videoStatus);
+    updateCardStatus(index, 'vo', asset.voStatus);
+
+    if (asset.imageStatus === 'complete' && asset.imageUrl) renderImageAsset(index);
+    if (asset.videoStatus === 'complete' && asset.videoUrl) renderVideoAsset(index);
+    if (asset.voStatus === 'complete' && asset.audioUrl) renderVoiceoverAsset(index);
+    renderUserMediaAsset(index);
+}
+
+async function openCampaign(id: string) {
+    const campaign = await loadCampaign(id);
+    if (!campaign) {
+        showError("That campaign could not be found. It may have been deleted.");
+        renderCampaignList();
+        return;
+    }
+
+    const inputs = withInputDefaults(campaign.inputs);
+    state.campaignId = campaign.id;
+    state.campaignCreatedAt = campaign.createdAt;
+    state.inputs = inputs;
+    state.watermarkText = inputs.watermarkText;
+    state.aspectRatio = inputs.format;
+    state.elevenApiKey = (document.getElementById('eleven-api-key') as HTMLInputElement).value || state.elevenApiKey;
+    state.logo = campaign.logo
+        ? { ...campaign.logo, objectURL: `data:${campaign.logo.mimeType};base64,${campaign.logo.base64}` }
+        : { base64: null, mimeType: null, objectURL: null };
+    state.storyboard = campaign.storyboard;
+    state.postCopy = upgradePostCopy(campaign.postCopy, inputs.format);
+    state.variant = campaign.variant ?? null;
+    state.variants = campaign.variants ?? [];
+    state.complianceWaivers = campaign.complianceWaivers ?? [];
+    state.budget = campaign.budget ?? null;
+    state.references = campaign.references ?? [];
+    state.usage = await listUsage(campaign.id);
+    state.music = campaign.music ?? null;
+    state.brandKit = { ...DEFAULT_BRAND_KIT, ...campaign.brandKit };
+    setEndCard({ ...DEFAULT_END_CARD, ...campaign.endCard });
+    revokeSceneAssetUrls();
+    state.sceneAssets = campaign.sceneAssets.map(restoreSceneAsset);
+    writeCampaignInputs(inputs);
+
+    rerenderStoryboard();
+    renderReferenceControls();
+    renderVariantBar();
+    renderMusicControls();
+    renderBrandKitControls();
+    resetExportFormats(inputs.format);
+    resetPostCopyPlatforms(inputs.format, state.postCopy);
+    if (state.postCopy) {
+        renderPostCopy(state.postCopy);
+    } else {
+        postCopyView.classList.add('hidden');
+    }
+    checkAssetGenerationStatus();
+
+    setupView.classList.add('hidden');
+    storyboardView.classList.remove('hidden');
+}
+
+async function renderCampaignList() {
+    let campaigns: StoredCampaign[];
+    try {
+        campaigns = await listCampaigns();
+    } catch (e) {
+        console.error('Failed to load saved campaigns:', e);
+        campaignsView.classList.add('hidden');
+        return;
+    }
+
+    campaignsView.classList.toggle('hidden', campaigns.length === 0);
+    campaignsList.innerHTML = '';
+    campaigns.forEach(campaign => {
+        const completeScenes = campaign.sceneAssets.filter(a =>
+            (a.userMedia || (a.imageStatus === 'complete' && a.videoStatus === 'complete')) && a.voStatus === 'complete'
+        ).length;
+        const item = document.createElement('li');
+        item.className = 'campaign-item';
+        item.innerHTML = `
+            <div class="campaign-info">
+                <span class="campaign-name"></span>
+                <span class="campaign-meta"></span>
+            </div>
+            <div class="campaign-actions">
+                <button class="secondary-btn" data-action="open">Open</button>
+                <button class="secondary-btn" data-action="duplicate">Duplicate</button>
+                <button class="secondary-btn" data-action="delete">Delete</button>
+            </div>
+        `;
+        item.querySelector('.campaign-name')!.textContent = campaign.name;
+        item.querySelectorAll<HTMLButtonElement>('button[data-action]').forEach(button => { button.dataset.id = campaign.id; });
+        item.querySelector('.campaign-meta')!.textContent = `${campaign.variant ? `${describeVariant(campaign.variant)} · ` : ''}${campaign.inputs.format} · ${completeScenes}/${campaign.sceneAssets.length} scenes complete · Updated ${new Date(campaign.updatedAt).toLocaleString()}`;
+        campaignsList.appendChild(item);
+    });
+}
+
+async function onCampaignListClick(event: Event) {
+    const button = (event.target as HTMLElement).closest('button[data-action]') as HTMLButtonElement | null;
+    if (!button || state.isGenerating) return;
+    const id = button.dataset.id!;
+
+    try {
+        switch (button.dataset.action) {
+            case 'open':
+                await openCampaign(id);
+                break;
+            case 'duplicate':
+                await duplicateCampaign(id);
+                await renderCampaignList();
+                break;
+            case 'delete':
+                if (!confirm("Delete this campaign and all of its generated assets?")) return;
+                await deleteCampaign(id);
+                await renderCampaignList();
+                break;
+        }
+    } catch (error) {
+        console.error(error);
+        showError("Failed to update saved campaigns. Please check the console for details.");
+    }
+}
+
+/**
+ * Downloads the open campaign as a project ZIP. Captions are included once every voiceover exists and
+ * post copy once it has been written.
+ */
+async function handleExportProject() {
+    const campaign = currentCampaignRecord();
+    if (!campaign) return;
+    if (isBusy()) {
+        showError("Please wait for the current generation to finish before exporting the project.");
+        return;
+    }
+
+    showLoader("📦 Packing your project...");
+    try {
+        let captions: { srt: string; vtt: string } | null = null;
+        if (state.sceneAssets.every(a => a.voStatus === 'complete')) {
+            try {
+                const cues = buildAdCaptions(await buildAdTimeline());
+                captions = { srt: toSrt(cues), vtt: toVtt(cues) };
+            } catch (e) {
+                console.warn('Left the captions out of the project:', e);
+            }
+        }
+        const zip = await exportProject(campaign, {
+            models: PROVIDER_CONFIG,
+            captions,
+            postCopyMarkdown: state.postCopy ? postCopyMarkdown(state.postCopy) : null,
+        });
+        downloadBlob(zip, `automace_project_${variantFileTag()}${new Date().toISOString().slice(0, 10)}.zip`);
+    } catch (error) {
+        console.error(error);
+        showError("Failed to export the project. Please check the console for details.");
+    } finally {
+        hideLoader();
+    }
+}
+
+async function onImportProject(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file || state.isGenerating) return;
+
+    showLoader("📦 Unpacking the project...");
+    try {
+        const campaign = await importProject(file);
+        // Importing a project that's already here keeps both copies.
+        if (await loadCampaign(campaign.id)) campaign.id = createCampaignId();
+        await saveCampaign(campaign);
+        await openCampaign(campaign.id);
+    } catch (error) {
+        console.error(error);
+        showError(error instanceof ProjectImportError
+            ? `"${file.name}" couldn't be imported: ${error.message}`
+            : `"${file.name}" couldn't be imported. Please check the console for details.`);
+    } finally {
+        hideLoader();
+    }
+}
+
+function onBackToSetup() {
+    if (isBusy()) {
+        showError("Please wait for the current generation to finish before leaving this campaign.");
+        return;
+    }
+    storyboardView.classList.add('hidden');
+    setupView.classList.remove('hidden');
+    renderCampaignList();
+}
 
 // --- Preview Player Logic ---
 let currentSceneIndex = 0;
+let previewTimeline: Timeline | null = null;
+let sceneTimer: number | undefined;
+let previewAudioContext: AudioContext | null = null;
+let previewCaptions: CaptionCue[] = [];
+let previewFrame = 0;
+let previewCaptionKey = '';
+let previewTextKey = '';
+// The scene loaded into each of `previewVideos`, or -1.
+let previewVideoScenes = [-1, -1];
+let previewSceneStartedAt = 0;
+
+// Preview and export share this timeline so both play each scene for exactly as long.
+async function buildAdTimeline(): Promise<Timeline> {
+    const durations = await Promise.all(state.sceneAssets.map(async (asset): Promise<SceneDurations> => ({
+        voDuration: await measureMediaDuration(asset.audioUrl!, 'audio'),
+        ...await clipDurations(asset),
+    })));
+    return buildTimeline(durations, state.inputs?.videoFit ?? 'loop');
+}
+
+// The part of the scene's clip that plays. A still has no clip time of its own; it's held for the whole scene.
+async function clipDurations(asset: SceneAsset): Promise<Pick<SceneDurations, 'videoDuration' | 'clipStart'>> {
+    const media = asset.userMedia;
+    if (media?.kind === 'video') return { videoDuration: media.trimEnd - media.trimStart, clipStart: media.trimStart };
+    if (media) return { videoDuration: 0, clipStart: 0 };
+    // Captions only need the voiceovers, so a scene may not have its clip yet.
+    return { videoDuration: asset.videoUrl ? await measureMediaDuration(asset.videoUrl, 'video') : 0, clipStart: 0 };
+}
+
+function sceneMediaUrl(asset: SceneAsset): string {
+    return asset.userMedia?.url ?? asset.videoUrl!;
+}
+
+function isStillScene(index: number): boolean {
+    return state.sceneAssets[index].userMedia?.kind === 'image';
+}
+
+// Real-time playback (the preview and the WebM fallback) can't stop or loop at a trim point by itself.
+function keepClipInTrim(video: HTMLVideoElement, scene: TimelineScene) {
+    if (scene.fit === 'trim' || video.currentTime < scene.clipStart + scene.videoDuration) return;
+    if (scene.fit === 'loop') {
+        video.currentTime = scene.clipStart;
+        if (video.paused) video.play();
+    } else {
+        video.pause();
+    }
+}
+
+function buildAdCaptions(timeline: Timeline): CaptionCue[] {
+    const sceneWords = state.sceneAssets.map((asset, i): WordTiming[] =>
+        asset.voVariants?.find(v => v.audioBlob === asset.audioBlob)?.words
+            ?? estimateWordTimings(state.storyboard!.scenes[i].voiceover, timeline.scenes[i].voDuration));
+    return buildCaptionCues(timeline, sceneWords);
+}
 
-function showPreview() {
+async function showPreview() {
   currentSceneIndex = 0;
+  try {
+    previewTimeline = await buildAdTimeline();
+  } catch (e) {
+    console.error('Failed to build the preview timeline:', e);
+    showError("Couldn't read the scene media for the preview. Try regenerating the affected scene.");
+    return;
+  }
   const videoWrapper = document.querySelector('.video-wrapper') as HTMLDivElement;
   if (videoWrapper) {
     videoWrapper.style.setProperty('--video-aspect-ratio', state.aspectRatio.replace(':', ' / '));
+    await applyBrandKitToPreview(videoWrapper);
   }
   previewModal.classList.remove('hidden');
   logoOverlay.src = state.logo.objectURL || '';
+  applyEndCardToPreview();
   watermarkOverlay.textContent = state.watermarkText;
+  previewCaptions = state.inputs?.captions ? buildAdCaptions(previewTimeline) : [];
+  await startPreviewMusic(previewTimeline);
   playScene(currentSceneIndex);
+  previewFrame = requestAnimationFrame(renderPreviewFrame);
+}
+
+function renderPreviewFrame() {
+  const scene = previewTimeline?.scenes[currentSceneIndex];
+  if (scene) {
+    // Transitions and text run on the scene's own clock: the voiceover player stops during the scene's tail.
+    const sceneTime = Math.min(scene.duration, (performance.now() - previewSceneStartedAt) / 1000);
+    renderPreviewComposition(scene.start + sceneTime);
+  }
+  renderPreviewCaption();
+  if (previewTimeline) {
+    previewFrame = requestAnimationFrame(renderPreviewFrame);
+  }
+}
+
+// Mirrors `drawAdFrame` in the export with the two preview players and the overlay elements.
+function renderPreviewComposition(time: number) {
+  const timeline = previewTimeline!;
+  const frame = composeFrame(timeline, state.storyboard.scenes.map((scene: Scene) => scene.transition), time);
+  previewVideos.forEach((video, slot) => {
+    const layerIndex = frame.layers.findIndex(layer => layer.sceneIndex === previewVideoScenes[slot]);
+    const layer = frame.layers[layerIndex];
+    if (!layer) {
+      video.style.opacity = '0';
+      if (!video.paused) video.pause();
+      return;
+    }
+    video.style.opacity = String(layer.opacity);
+    video.style.transform = `translateX(${layer.offsetX * 100}%) scale(${layer.scale})${stillZoomTransform(layer.sceneIndex, layer.sceneTime)}`;
+    video.style.zIndex = String(layerIndex);
+    if (!isStillScene(layer.sceneIndex)) keepClipInTrim(video, timeline.scenes[layer.sceneIndex]);
+  });
+  // Load the next clip into the free player as soon as it's out of the transition.
+  const next = frame.sceneIndex + 1;
+  if (next < timeline.scenes.length && !frame.layers.some(layer => layer.sceneIndex % 2 === next % 2)) {
+    loadPreviewVideo(next);
+  }
+
+  transitionDip.style.backgroundColor = frame.dip?.color ?? 'transparent';
+  transitionDip.style.opacity = String(frame.dip?.opacity ?? 0);
+
+  const scene = state.storyboard.scenes[frame.sceneIndex];
+  const text = animateText(scene.on_screen_text, scene.textAnimations, frame.sceneTime, timeline.scenes[frame.sceneIndex].duration);
+  const key = `${frame.sceneIndex}:${text.visibleLength}`;
+  if (key !== previewTextKey) {
+    previewTextKey = key;
+    // Unrevealed text keeps its space so the line doesn't shift as it types out.
+    const pending = document.createElement('span');
+    pending.className = 'pending-text';
+    pending.textContent = text.text.slice(text.visibleLength);
+    textOverlay.replaceChildren(text.text.slice(0, text.visibleLength), pending);
+  }
+  textOverlay.style.opacity = String(text.visibleLength ? text.opacity : 0);
+  textOverlay.style.transform = `scale(${text.scale})`;
+}
+
+// A still's slow push-in, towards its focal point.
+function stillZoomTransform(index: number, sceneTime: number): string {
+  if (!isStillScene(index)) return '';
+  const focal = state.storyboard.scenes[index].focalPoint ?? CENTER_FOCAL_POINT;
+  const dx = (focal.x - 0.5) * 100;
+  const dy = (focal.y - 0.5) * 100;
+  const zoom = stillImageScale(sceneTime, previewTimeline!.scenes[index].duration);
+  return ` translate(${dx}%, ${dy}%) scale(${zoom}) translate(${-dx}%, ${-dy}%)`;
+}
+
+function loadPreviewVideo(index: number) {
+  const slot = index % 2;
+  if (previewVideoScenes[slot] === index) return;
+  const video = previewVideos[slot];
+  const focal = state.storyboard.scenes[index].focalPoint ?? CENTER_FOCAL_POINT;
+  video.style.objectPosition = `${focal.x * 100}% ${focal.y * 100}%`;
+  const scene = previewTimeline!.scenes[index];
+  const asset = state.sceneAssets[index];
+  if (isStillScene(index)) {
+    // A still is shown as the player's poster; there's nothing to play.
+    video.removeAttribute('src');
+    video.poster = asset.userMedia!.url!;
+    video.load();
+  } else {
+    video.removeAttribute('poster');
+    // A clip trimmed at the start is looped by `keepClipInTrim` instead, back to its in point.
+    video.loop = scene.fit === 'loop' && scene.clipStart === 0;
+    video.src = sceneMediaUrl(asset);
+    video.currentTime = scene.clipStart;
+  }
+  previewVideoScenes[slot] = index;
+}
+
+// Captions follow the voiceover player's clock, so they stay on the words even if playback stalls.
+function renderPreviewCaption() {
+  const scene = previewTimeline?.scenes[currentSceneIndex];
+  const caption = scene ? captionAt(previewCaptions, scene.start + voiceoverAudioPlayer.currentTime) : null;
+  const key = caption ? `${caption.cue.start}:${caption.wordIndex}` : '';
+  if (key !== previewCaptionKey) {
+    previewCaptionKey = key;
+    captionOverlay.replaceChildren(...(caption?.cue.words ?? []).map((word, i) => {
+      const span = document.createElement('span');
+      span.textContent = word.word;
+      span.classList.toggle('active-word', i === caption!.wordIndex);
+      return span;
+    }));
+  }
+}
+
+async function startPreviewMusic(timeline: Timeline) {
+  if (!state.music) return;
+  const context = new AudioContext();
+  previewAudioContext = context;
+  try {
+    const music = await decodeAudio(context, state.music.blob);
+    scheduleMusicBed(context, music, context.destination, {
+      timeline,
+      startTime: context.currentTime,
+      volume: state.music.volume,
+      endCardSeconds: currentEndCardSeconds(),
+    });
+  } catch (e) {
+    // The ad still previews without its music bed.
+    console.error('Failed to play background music:', e);
+  }
 }
 
 function hidePreview() {
-  sceneVideo.pause();
+  clearTimeout(sceneTimer);
+  previewTimeline = null;
+  previewAudioContext?.close();
+  previewAudioContext = null;
+  cancelAnimationFrame(previewFrame);
+  previewCaptionKey = '';
+  previewTextKey = '';
+  captionOverlay.replaceChildren();
+  textOverlay.replaceChildren();
+  transitionDip.style.opacity = '0';
+  endCardOverlay.classList.remove('visible');
+  previewVideos.forEach(video => {
+    video.pause();
+    video.style.opacity = '0';
+  });
+  previewVideoScenes = [-1, -1];
   voiceoverAudioPlayer.pause();
   previewModal.classList.add('hidden');
 }
 
 function playScene(index: number) {
-  if (index >= state.sceneAssets.length) {
-    hidePreview();
+  if (!previewTimeline) return;
+  if (index >= previewTimeline.scenes.length) {
+    showPreviewEndCard();
     return;
   }
   
   const sceneAsset = state.sceneAssets[index];
-  const sceneData = state.storyboard.scenes[index];
+  const timelineScene = previewTimeline.scenes[index];
   
-  // Update UI
-  sceneIndicator.textContent = `Scene ${index + 1} / ${state.sceneAssets.length}`;
-  textOverlay.textContent = sceneData.on_screen_text;
-  
-  // Fade in overlays
-  textOverlay.style.opacity = '1';
+  // Update UI. The on-screen text and transitions are drawn by `renderPreviewComposition`.
+  sceneIndicator.textContent = `Scene ${index + 1} / ${previewTimeline.scenes.length} · ${formatSeconds(timelineScene.duration)}`;
   logoOverlay.style.opacity = '1';
   watermarkOverlay.style.opacity = '1';
   
-  // Play Video & Audio
-  sceneVideo.src = sceneAsset.videoUrl!;
+  // Play Video & Audio. A finished <video> keeps showing its last frame, which covers 'freeze'.
+  // The clip is usually already loaded (and showing its first frame if a transition led into it).
+  loadPreviewVideo(index);
+  const sceneVideo = previewVideos[index % 2];
   voiceoverAudioPlayer.src = sceneAsset.audioUrl!;
-  sceneVideo.currentTime = 0;
   voiceoverAudioPlayer.currentTime = 0;
-  sceneVideo.play();
+  if (!isStillScene(index)) {
+    sceneVideo.currentTime = timelineScene.clipStart;
+    sceneVideo.play();
+  }
   voiceoverAudioPlayer.play();
+  previewSceneStartedAt = performance.now();
 
-  // Go to next scene when video ends
-  sceneVideo.onended = () => {
-    textOverlay.style.opacity = '0';
-    logoOverlay.style.opacity = '0';
-    watermarkOverlay.style.opacity = '0';
+  // The voiceover, not the clip, decides when the scene ends.
+  clearTimeout(sceneTimer);
+  sceneTimer = window.setTimeout(() => {
     currentSceneIndex++;
-    // Add a small delay between scenes
-    setTimeout(() => playScene(currentSceneIndex), 300);
-  };
+    playScene(currentSceneIndex);
+  }, timelineScene.duration * 1000);
+}
+
+function showPreviewEndCard() {
+  const seconds = currentEndCardSeconds();
+  if (!seconds) {
+    hidePreview();
+    return;
+  }
+  sceneIndicator.textContent = 'End card';
+  textOverlay.style.opacity = '0';
+  logoOverlay.style.opacity = '0';
+  watermarkOverlay.style.opacity = '0';
+  transitionDip.style.opacity = '0';
+  previewVideos.forEach(video => video.pause());
+  endCardOverlay.classList.add('visible');
+  sceneTimer = window.setTimeout(hidePreview, seconds * 1000);
 }
 
 // --- Video Download Logic ---
-async function handleDownloadVideo() {
-    if (state.isGenerating || state.sceneAssets.some(a => a.videoStatus !== 'complete' || a.voStatus !== 'complete')) {
-        showError("All assets must be generated before downloading.");
+// A scene's clip, or the still that stands in for it.
+type SceneMedia = HTMLVideoElement | HTMLImageElement;
+
+function pauseSceneMedia(media: SceneMedia | undefined) {
+    if (media instanceof HTMLVideoElement) media.pause();
+}
+
+function downloadBlob(blob: Blob, filename: string) {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    window.URL.revokeObjectURL(url);
+    document.body.removeChild(a);
+}
+
+async function handleDownloadCaptions(format: 'srt' | 'vtt') {
+    if (state.sceneAssets.some(a => a.voStatus !== 'complete')) {
+        showError("All voiceovers must be generated before downloading captions.");
         return;
     }
+    try {
+        const captions = buildAdCaptions(await buildAdTimeline());
+        const text = format === 'srt' ? toSrt(captions) : toVtt(captions);
+        const type = format === 'srt' ? 'application/x-subrip' : 'text/vtt';
+        downloadBlob(new Blob([text], { type }), `automace_captions_${variantFileTag()}${new Date().toISOString().slice(0,10)}.${format}`);
+    } catch (error) {
+        console.error("Failed to build captions:", error);
+        showError("Couldn't read the voiceover audio to time the captions. Try regenerating the affected voiceover.");
+    }
+}
 
-    state.isGenerating = true;
-    showLoader("🎬 Rendering final video... This may take a moment.");
+// Draws the current caption cue word by word so the spoken word can be highlighted.
+function drawCaption(ctx: CanvasRenderingContext2D, caption: ActiveCaption | null, layout: OverlayLayout, brand: BrandStyle) {
+    if (!caption) return;
+    const fontSize = layout.fontSize * 0.8;
+    ctx.font = `bold ${fontSize}px ${brand.fontFamily}`;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+
+    const words = caption.cue.words.map(w => w.word);
+    const spaceWidth = ctx.measureText(' ').width;
+    const wordWidths = words.map(word => ctx.measureText(word).width);
+    const lineWidth = wordWidths.reduce((sum, w) => sum + w, 0) + spaceWidth * (words.length - 1);
+    // Squeeze long cues into the safe area rather than letting them run off the edge.
+    const squeeze = Math.min(1, layout.safe.width / lineWidth);
+    const padding = fontSize * 0.35;
+    let x = layout.safe.x + (layout.safe.width - lineWidth * squeeze) / 2;
+    const y = layout.captionY;
+
+    ctx.fillStyle = withOpacity(brand.kit.secondaryColor, 0.55);
+    ctx.fillRect(x - padding, y - fontSize * 0.75, lineWidth * squeeze + padding * 2, fontSize * 1.5);
+    words.forEach((word, i) => {
+        ctx.fillStyle = i === caption.wordIndex ? brand.kit.accentColor : brand.kit.primaryColor;
+        ctx.fillText(word, x, y, wordWidths[i] * squeeze);
+        x += (wordWidths[i] + spaceWidth) * squeeze;
+    });
+}
 
-    try {
-        const [width, height] = state.aspectRatio === '9:16' ? [720, 1280] : [1080, 1080];
-        const canvas = document.createElement('canvas');
-        canvas.width = width;
-        canvas.height = height;
-        const ctx = canvas.getContext('2d')!;
-        ctx.fillStyle = 'black';
-        ctx.fillRect(0, 0, width, height);
+// Draws the clip's current frame (or the still) cropped to fill the canvas around the scene's focal point, then
+// moved, zoomed and faded as its transition layer says. A clip that has ended (see the 'freeze' fit) keeps its
+// last frame. `zoom` is a still's push-in, centred on the focal point.
+function drawSceneLayer(ctx: CanvasRenderingContext2D, media: SceneMedia, focal: FocalPoint, layer: FrameLayer, zoom = 1) {
+    const { width, height } = ctx.canvas;
+    const [mediaWidth, mediaHeight] = media instanceof HTMLVideoElement
+        ? [media.videoWidth, media.videoHeight]
+        : [media.naturalWidth, media.naturalHeight];
+    const rect = coverRect(mediaWidth, mediaHeight, width, height, focal);
+    const focusX = rect.x + focal.x * rect.width - width / 2;
+    const focusY = rect.y + focal.y * rect.height - height / 2;
+    ctx.save();
+    ctx.globalAlpha = layer.opacity;
+    ctx.translate(width * (0.5 + layer.offsetX), height / 2);
+    ctx.scale(layer.scale, layer.scale);
+    ctx.translate(focusX, focusY);
+    ctx.scale(zoom, zoom);
+    ctx.translate(-focusX, -focusY);
+    ctx.drawImage(media, rect.x - width / 2, rect.y - height / 2, rect.width, rect.height);
+    ctx.restore();
+}
 
-        // 1. Set up combined audio track
-        const audioContext = new AudioContext();
-        const audioDestination = audioContext.createMediaStreamDestination();
-        const audioBuffers = await Promise.all(
-            state.sceneAssets.map(asset =>
-                fetch(asset.audioUrl!)
-                    .then(res => res.arrayBuffer())
-                    .then(buffer => audioContext.decodeAudioData(buffer))
-            )
-        );
+function drawOnScreenText(ctx: CanvasRenderingContext2D, text: TextFrame, layout: OverlayLayout, brand: BrandStyle) {
+    const { safe, fontSize, textY } = layout;
+    if (text.opacity <= 0 || text.scale <= 0) return;
+    ctx.save();
+    ctx.globalAlpha = text.opacity;
+    ctx.translate(safe.x + safe.width / 2, textY);
+    ctx.scale(text.scale, text.scale);
+    drawStyledText(ctx, text.text, 0, 0, safe.width, fontSize, brand, text.visibleLength);
+    ctx.restore();
+}
 
-        let audioStartTime = 0;
-        for (const buffer of audioBuffers) {
-            const source = audioContext.createBufferSource();
-            source.buffer = buffer;
-            source.connect(audioDestination);
-            source.start(audioStartTime);
-            audioStartTime += buffer.duration;
+/**
+ * Draws one moment of the ad: the clips in the frame, the scene's text, any dip colour, then the logo,
+ * watermark and caption on top.
+ */
+function drawAdFrame(
+    ctx: CanvasRenderingContext2D,
+    frame: FrameComposition,
+    timeline: Timeline,
+    sceneMedia: SceneMedia[],
+    text: TextFrame,
+    caption: ActiveCaption | null,
+    logoImg: HTMLImageElement | null,
+    layout: OverlayLayout,
+    brand: BrandStyle,
+) {
+    const { width, height } = ctx.canvas;
+    ctx.fillStyle = 'black';
+    ctx.fillRect(0, 0, width, height);
+    frame.layers.forEach(layer => {
+        const focal = state.storyboard.scenes[layer.sceneIndex].focalPoint ?? CENTER_FOCAL_POINT;
+        const media = sceneMedia[layer.sceneIndex];
+        const zoom = media instanceof HTMLImageElement ? stillImageScale(layer.sceneTime, timeline.scenes[layer.sceneIndex].duration) : 1;
+        drawSceneLayer(ctx, media, focal, layer, zoom);
+    });
+    drawOnScreenText(ctx, text, layout, brand);
+    if (frame.dip) {
+        ctx.fillStyle = withOpacity(frame.dip.color, frame.dip.opacity);
+        ctx.fillRect(0, 0, width, height);
+    }
+    drawSceneOverlays(ctx, logoImg, layout, brand);
+    drawCaption(ctx, caption, layout, brand);
+}
+
+function drawSceneOverlays(
+    ctx: CanvasRenderingContext2D,
+    logoImg: HTMLImageElement | null,
+    layout: OverlayLayout,
+    brand: BrandStyle,
+) {
+    const { safe, fontSize } = layout;
+    const { kit } = brand;
+    if (logoImg) {
+        const logoMaxW = safe.width * kit.logoScale;
+        const logoMaxH = safe.height * kit.logoScale / 2;
+        const logoRatio = logoImg.width / logoImg.height;
+        let logoW = logoMaxW;
+        let logoH = logoMaxW / logoRatio;
+        if (logoH > logoMaxH) {
+            logoH = logoMaxH;
+            logoW = logoMaxH * logoRatio;
         }
-        const audioTrack = audioDestination.stream.getAudioTracks()[0];
+        const { x, y } = cornerPosition(safe, logoW, logoH, kit.logoPosition);
+        ctx.drawImage(logoImg, x, y, logoW, logoH);
+    }
+    if(state.watermarkText) {
+        const watermarkSize = fontSize * 0.35;
+        ctx.font = `${watermarkSize}px ${brand.fontFamily}`;
+        ctx.fillStyle = withOpacity(kit.primaryColor, kit.watermarkOpacity);
+        ctx.textAlign = 'left';
+        ctx.textBaseline = 'top';
+        const watermarkWidth = Math.min(safe.width, ctx.measureText(state.watermarkText).width);
+        const { x, y } = cornerPosition(safe, watermarkWidth, watermarkSize, kit.watermarkPosition);
+        ctx.fillText(state.watermarkText, x, y, safe.width);
+    }
+}
 
-        // 2. Set up video track from canvas
-        const videoStream = canvas.captureStream(30);
-        const videoTrack = videoStream.getVideoTracks()[0];
+// Images the end card needs, loaded once per export.
+type EndCardMedia = {
+    logo: HTMLImageElement | null;
+    background: HTMLImageElement | null;
+    qrCode: HTMLCanvasElement | null;
+};
 
-        // 3. Combine tracks and set up recorder
-        const combinedStream = new MediaStream([videoTrack, audioTrack]);
-        const recorder = new MediaRecorder(combinedStream, { mimeType: 'video/webm; codecs=vp9,opus' });
+/**
+ * Draws the end card: its background, then the logo, tagline, call to action, offer, QR code and
+ * website stacked in the middle of the safe area, all shrunk together if they don't fit.
+ */
+function drawEndCard(ctx: CanvasRenderingContext2D, media: EndCardMedia, layout: OverlayLayout, brand: BrandStyle) {
+    const { width, height } = ctx.canvas;
+    const { endCard } = state;
+    const { kit } = brand;
+    const { safe, fontSize } = layout;
+    if (media.background) {
+        const rect = coverRect(media.background.width, media.background.height, width, height, CENTER_FOCAL_POINT);
+        ctx.drawImage(media.background, rect.x, rect.y, rect.width, rect.height);
+        ctx.fillStyle = withOpacity(kit.secondaryColor, END_CARD_SCRIM_OPACITY);
+    } else {
+        ctx.fillStyle = endCard.background === 'color' ? endCard.backgroundColor : kit.endCardColor;
+    }
+    ctx.fillRect(0, 0, width, height);
+
+    const items: { height: number; draw: (y: number, scale: number) => void }[] = [];
+    const addText = (text: string, size: number, color: string) => items.push({
+        height: size * 1.3,
+        draw: (y, scale) => {
+            ctx.font = `bold ${size * scale}px ${brand.fontFamily}`;
+            ctx.fillStyle = color;
+            ctx.textAlign = 'center';
+            ctx.textBaseline = 'middle';
+            ctx.fillText(text, width / 2, y + size * 1.3 * scale / 2, safe.width);
+        },
+    });
 
-        const chunks: Blob[] = [];
-        recorder.ondataavailable = (event) => {
-            if (event.data.size > 0) {
-                chunks.push(event.data);
-            }
-        };
+    if (media.logo) {
+        const logo = media.logo;
+        const logoRatio = logo.width / logo.height;
+        let logoW = safe.width * 0.5;
+        let logoH = logoW / logoRatio;
+        if (logoH > safe.height * 0.3) {
+            logoH = safe.height * 0.3;
+            logoW = logoH * logoRatio;
+        }
+        items.push({ height: logoH, draw: (y, scale) => ctx.drawImage(logo, (width - logoW * scale) / 2, y, logoW * scale, logoH * scale) });
+    }
+    if (kit.tagline) addText(kit.tagline, fontSize, kit.primaryColor);
+    if (endCard.cta) {
+        const ctaHeight = fontSize * 1.8;
+        items.push({
+            height: ctaHeight,
+            draw: (y, scale) => {
+                ctx.font = `bold ${fontSize * scale}px ${brand.fontFamily}`;
+                const padding = fontSize * scale;
+                const buttonWidth = Math.min(safe.width, ctx.measureText(endCard.cta).width + padding * 2);
+                ctx.fillStyle = kit.accentColor;
+                ctx.beginPath();
+                ctx.roundRect((width - buttonWidth) / 2, y, buttonWidth, ctaHeight * scale, ctaHeight * scale / 2);
+                ctx.fill();
+                ctx.fillStyle = kit.secondaryColor;
+                ctx.textAlign = 'center';
+                ctx.textBaseline = 'middle';
+                ctx.fillText(endCard.cta, width / 2, y + ctaHeight * scale / 2, buttonWidth - padding * 2);
+            },
+        });
+    }
+    if (endCard.offer) addText(endCard.offer, fontSize * 0.8, kit.accentColor);
+    if (media.qrCode) {
+        const qrCode = media.qrCode;
+        const qrSize = Math.min(safe.width, safe.height) * 0.3;
+        items.push({
+            height: qrSize,
+            draw: (y, scale) => {
+                ctx.imageSmoothingEnabled = false;
+                ctx.drawImage(qrCode, (width - qrSize * scale) / 2, y, qrSize * scale, qrSize * scale);
+                ctx.imageSmoothingEnabled = true;
+            },
+        });
+    }
+    const url = normalizeUrl(endCard.url);
+    if (url) addText(displayUrl(url), fontSize * 0.6, kit.primaryColor);
+
+    const gap = fontSize * 0.5;
+    const totalHeight = items.reduce((sum, item) => sum + item.height, 0) + gap * Math.max(0, items.length - 1);
+    const scale = Math.min(1, safe.height / totalHeight);
+    let y = safe.y + (safe.height - totalHeight * scale) / 2;
+    items.forEach(item => {
+        item.draw(y, scale);
+        y += (item.height + gap) * scale;
+    });
+}
 
-        recorder.onstop = () => {
-            const blob = new Blob(chunks, { type: 'video/webm' });
-            const url = URL.createObjectURL(blob);
-            const a = document.createElement('a');
-            a.href = url;
-            a.download = `automace_ad_${new Date().toISOString().slice(0,10)}.webm`;
-            document.body.appendChild(a);
-            a.click();
-            window.URL.revokeObjectURL(url);
-            document.body.removeChild(a);
-            state.isGenerating = false;
-            hideLoader();
-        };
+// One canvas per format being exported; every frame is drawn to all of them.
+type ExportTarget = {
+    format: AdFormat;
+    ctx: CanvasRenderingContext2D;
+    layout: OverlayLayout;
+};
 
-        // 4. Start recording and render scenes
-        recorder.start();
+let activeExport: AbortController | null = null;
+
+function readExportSettings(): { formats: AdFormat[]; fps: number; videoBitrate: number } {
+    const formats = Array.from(exportFormatInputs)
+        .filter(input => input.checked)
+        .map(input => AD_FORMATS[input.value as AspectRatio]);
+    return {
+        formats,
+        fps: Number((document.getElementById('export-fps') as HTMLSelectElement).value),
+        videoBitrate: Number((document.getElementById('export-bitrate') as HTMLSelectElement).value),
+    };
+}
 
-        const tempVideo = document.createElement('video');
-        tempVideo.muted = true;
-        
-        const logoImg = new Image();
-        let logoLoaded = false;
-        if (state.logo.objectURL) {
-            logoImg.src = state.logo.objectURL;
-            await new Promise(resolve => { logoImg.onload = resolve; });
-            logoLoaded = true;
-        }
+// New and reopened campaigns start with just their own format selected for export.
+function resetExportFormats(format: AspectRatio) {
+    exportFormatInputs.forEach(input => { input.checked = input.value === format; });
+}
 
-        for (let i = 0; i < state.sceneAssets.length; i++) {
-            const sceneAsset = state.sceneAssets[i];
-            const sceneData = state.storyboard.scenes[i];
-            
-            tempVideo.src = sceneAsset.videoUrl!;
-            await new Promise(resolve => { tempVideo.onloadeddata = resolve; });
+function seekVideo(video: HTMLVideoElement, time: number): Promise<void> {
+    if (Math.abs(video.currentTime - time) < 0.001 && video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+        return Promise.resolve();
+    }
+    return new Promise(resolve => {
+        video.onseeked = () => resolve();
+        video.currentTime = time;
+    });
+}
 
-            let resolveScene: (value: unknown) => void;
-            const scenePromise = new Promise(resolve => { resolveScene = resolve; });
-            tempVideo.onended = () => resolveScene(true);
-            
-            tempVideo.currentTime = 0;
-            await tempVideo.play();
-            
-            const renderFrame = () => {
-                if (tempVideo.paused || tempVideo.ended) {
-                    return;
-                }
-                
-                const videoRatio = tempVideo.videoWidth / tempVideo.videoHeight;
-                const canvasRatio = width / height;
-                let dWidth, dHeight, dx, dy;
-
-                if (videoRatio > canvasRatio) { 
-                    dHeight = height;
-                    dWidth = dHeight * videoRatio;
-                } else {
-                    dWidth = width;
-                    dHeight = dWidth / videoRatio;
-                }
-                dx = (width - dWidth) / 2;
-                dy = (height - dHeight) / 2;
-
-                ctx.fillRect(0, 0, width, height);
-                ctx.drawImage(tempVideo, dx, dy, dWidth, dHeight);
-
-                // Draw overlays
-                if (logoLoaded) {
-                    const logoMaxW = width * 0.15;
-                    const logoMaxH = height * 0.08;
-                    const logoRatio = logoImg.width / logoImg.height;
-                    let logoW = logoMaxW;
-                    let logoH = logoMaxW / logoRatio;
-                    if (logoH > logoMaxH) {
-                        logoH = logoMaxH;
-                        logoW = logoMaxH * logoRatio;
-                    }
-                    ctx.drawImage(logoImg, width - logoW - 20, 20, logoW, logoH);
-                }
-                if(state.watermarkText) {
-                    ctx.font = `${height * 0.015}px ${getComputedStyle(document.body).fontFamily}`;
-                    ctx.fillStyle = 'rgba(255, 255, 255, 0.5)';
-                    ctx.textAlign = 'left';
-                    ctx.textBaseline = 'bottom';
-                    ctx.fillText(state.watermarkText, 20, height - 20);
-                }
-                if (sceneData.on_screen_text) {
-                    ctx.font = `bold ${height * 0.04}px ${getComputedStyle(document.body).fontFamily}`;
-                    ctx.fillStyle = 'white';
-                    ctx.textAlign = 'center';
-                    ctx.textBaseline = 'middle';
-                    ctx.strokeStyle = 'rgba(0,0,0,0.8)';
-                    ctx.lineWidth = height * 0.01;
-                    const textX = width / 2;
-                    const textY = height * 0.85;
-                    ctx.strokeText(sceneData.on_screen_text, textX, textY);
-                    ctx.fillText(sceneData.on_screen_text, textX, textY);
-                }
+function onLoaderCancel() {
+    activeExport?.abort();
+    loaderCancelBtn.disabled = true;
+    loaderMessage.textContent = 'Cancelling...';
+}
 
-                requestAnimationFrame(renderFrame);
-            };
-            requestAnimationFrame(renderFrame);
-            await scenePromise;
-        }
+function showExportProgress(label: string, fraction: number, startedAt: number) {
+    const elapsed = Date.now() - startedAt;
+    const eta = formatRemaining(fraction > 0 ? (elapsed / fraction) * (1 - fraction) : null);
+    loaderMessage.textContent = `${label} ${Math.floor(fraction * 100)}%${eta ? `, ${eta}` : ''}`;
+    loaderProgress.value = fraction;
+}
 
-        // 5. Render end card with logo
-        if (logoLoaded) {
-            const LOGO_END_CARD_DURATION_MS = 3000; // 3 seconds
+async function handleDownloadVideo() {
+    if (state.isGenerating || state.sceneAssets.some(a => !hasSceneVisual(a) || a.voStatus !== 'complete')) {
+        showError("All assets must be generated before downloading.");
+        return;
+    }
+    const { formats, fps, videoBitrate } = readExportSettings();
+    if (formats.length === 0) {
+        showError("Select at least one export format.");
+        return;
+    }
 
-            // Clear canvas to black
-            ctx.fillStyle = 'black';
-            ctx.fillRect(0, 0, width, height);
+    const controller = new AbortController();
+    activeExport = controller;
+    state.isGenerating = true;
+    showLoader("🎬 Preparing the final video...");
+    loaderProgress.value = 0;
+    loaderProgress.classList.remove('hidden');
+    loaderCancelBtn.disabled = false;
+    loaderCancelBtn.classList.remove('hidden');
 
-            // Calculate logo dimensions to fit and center
-            const maxLogoWidth = width * 0.5;
-            const maxLogoHeight = height * 0.5;
-            const logoRatio = logoImg.width / logoImg.height;
-            
-            let logoW = maxLogoWidth;
-            let logoH = logoW / logoRatio;
+    let sceneVideos: SceneMedia[] = [];
+    try {
+        const targets: ExportTarget[] = formats.map(format => {
+            const canvas = document.createElement('canvas');
+            canvas.width = format.width;
+            canvas.height = format.height;
+            return { format, ctx: canvas.getContext('2d')!, layout: overlayLayout(format) };
+        });
 
-            if (logoH > maxLogoHeight) {
-                logoH = maxLogoHeight;
-                logoW = logoH * logoRatio;
+        // 1. Lay out the scenes and load every clip and the logo
+        const timeline = await buildAdTimeline();
+        const captions = state.inputs?.captions ? buildAdCaptions(timeline) : [];
+        sceneVideos = await Promise.all(state.sceneAssets.map(async (asset, i): Promise<SceneMedia> => {
+            if (isStillScene(i)) return loadImage(asset.userMedia!.url!);
+            const video = document.createElement('video');
+            video.muted = true;
+            video.loop = timeline.scenes[i].fit === 'loop' && timeline.scenes[i].clipStart === 0;
+            video.src = sceneMediaUrl(asset);
+            await loadVideoData(video, i + 1);
+            return video;
+        }));
+        const logoImg = state.logo.objectURL ? await loadImage(state.logo.objectURL) : null;
+        const endCardDuration = currentEndCardSeconds();
+        const endCardUrl = normalizeUrl(state.endCard.url);
+        const endCardMedia: EndCardMedia = {
+            logo: logoImg,
+            background: state.endCard.background === 'image' && state.endCardImageUrl ? await loadImage(state.endCardImageUrl) : null,
+            qrCode: endCardUrl && state.endCard.showQrCode ? renderQrCode(trackVariantUrl(endCardUrl, state.variant)) : null,
+        };
+        const brand = await currentBrandStyle();
+        throwIfCancelled(controller.signal);
+
+        // 2. Mix voiceovers and music into one track, shared by every format
+        const audio = await renderAdAudio({
+            timeline,
+            voiceovers: state.sceneAssets.map(asset => asset.audioBlob!),
+            music: state.music,
+            endCardSeconds: endCardDuration,
+            sampleRate: AUDIO_SAMPLE_RATE,
+        });
+        throwIfCancelled(controller.signal);
+
+        const transitions = state.storyboard.scenes.map(scene => scene.transition);
+        const composeAt = (time: number) => composeFrame(timeline, transitions, time);
+        const drawFrame = (time: number) => {
+            const frame = composeAt(time);
+            const scene = state.storyboard.scenes[frame.sceneIndex];
+            const text = animateText(scene.on_screen_text, scene.textAnimations, frame.sceneTime, timeline.scenes[frame.sceneIndex].duration);
+            const caption = captionAt(captions, time);
+            for (const { ctx, layout } of targets) {
+                drawAdFrame(ctx, frame, timeline, sceneVideos, text, caption, logoImg, layout, brand);
             }
+        };
+        const drawEndCards = () => {
+            if (endCardDuration) targets.forEach(({ ctx, layout }) => drawEndCard(ctx, endCardMedia, layout, brand));
+        };
 
-            const logoX = (width - logoW) / 2;
-            const logoY = (height - logoH) / 2;
-            
-            ctx.drawImage(logoImg, logoX, logoY, logoW, logoH);
-            
-            // Hold this frame for the duration
-            await new Promise(resolve => setTimeout(resolve, LOGO_END_CARD_DURATION_MS));
+        // 3. Encode every format in one pass, frame by frame where the browser supports it
+        const outputs = targets.map(({ format, ctx }) => ({
+            settings: { width: format.width, height: format.height, fps, videoBitrate },
+            canvas: ctx.canvas,
+        }));
+        const startedAt = Date.now();
+        let blobs: Blob[];
+        if (await supportsMp4Export(outputs.map(output => output.settings))) {
+            blobs = await encodeMp4({
+                outputs,
+                duration: timeline.duration + endCardDuration,
+                audio,
+                signal: controller.signal,
+                onProgress: fraction => showExportProgress('🎬 Rendering MP4...', fraction, startedAt),
+                renderFrame: async time => {
+                    if (time >= timeline.duration) {
+                        drawEndCards();
+                        return;
+                    }
+                    // Both clips of a transition are seeked; the incoming one holds its first frame until its scene starts.
+                    // Stills have nothing to seek: their push-in is drawn from the scene time.
+                    await Promise.all(composeAt(time).layers.map(({ sceneIndex, sceneTime }) => {
+                        const media = sceneVideos[sceneIndex];
+                        if (!(media instanceof HTMLVideoElement)) return;
+                        return seekVideo(media, clipTimeAt(timeline.scenes[sceneIndex], Math.max(0, sceneTime), 1 / fps));
+                    }));
+                    drawFrame(time);
+                },
+            });
+        } else {
+            console.warn('WebCodecs H.264/AAC encoding is not available; recording WebM in real time instead.');
+            blobs = await recordWebm({
+                canvases: outputs.map(output => output.canvas),
+                timeline, audio, sceneVideos, fps, drawFrame, drawEndCards,
+                signal: controller.signal,
+                onProgress: fraction => showExportProgress('🎬 Recording WebM in real time...', fraction, startedAt),
+            });
         }
-
-        recorder.stop();
-        audioContext.close();
-
+        const date = new Date().toISOString().slice(0,10);
+        blobs.forEach((blob, i) => {
+            const extension = blob.type === 'video/mp4' ? 'mp4' : 'webm';
+            downloadBlob(blob, `automace_ad_${variantFileTag()}${formats[i].ratio.replace(':', 'x')}_${date}.${extension}`);
+        });
     } catch (error) {
-        console.error("Failed to render video:", error);
-        showError("An error occurred while rendering the video. Please check the console.");
+        if (!(error instanceof CancelledError)) {
+            console.error("Failed to render video:", error);
+            showError("An error occurred while rendering the video. Please check the console.");
+        }
+    } finally {
+        sceneVideos.forEach(video => video.removeAttribute('src'));
+        activeExport = null;
         state.isGenerating = false;
+        loaderProgress.classList.add('hidden');
+        loaderCancelBtn.classList.add('hidden');
         hideLoader();
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Fallback for browsers without WebCodecs H.264/AAC support: plays the ad into the canvases and records
+ * each with MediaRecorder, so it takes as long as the ad runs.
+ */
+async function recordWebm(options: {
+    canvases: HTMLCanvasElement[];
+    timeline: Timeline;
+    audio: AudioBuffer;
+    sceneVideos: SceneMedia[];
+    fps: number;
+    drawFrame: (time: number) => void;
+    drawEndCards: () => void;
+    signal: AbortSignal;
+    onProgress: (fraction: number) => void;
+}): Promise<Blob[]> {
+    const { canvases, timeline, audio, sceneVideos, fps, drawFrame, drawEndCards, signal, onProgress } = options;
+    const audioContext = new AudioContext();
+    try {
+        const audioDestination = audioContext.createMediaStreamDestination();
+        const audioTrack = audioDestination.stream.getAudioTracks()[0];
+        const recordings = canvases.map(canvas => {
+            const recorder = new MediaRecorder(
+                new MediaStream([canvas.captureStream(fps).getVideoTracks()[0], audioTrack]),
+                { mimeType: 'video/webm; codecs=vp9,opus' },
+            );
+            const chunks: Blob[] = [];
+            recorder.ondataavailable = (event) => {
+                if (event.data.size > 0) {
+                    chunks.push(event.data);
+                }
+            };
+            const stopped = new Promise<Blob>(resolve => {
+                recorder.onstop = () => resolve(new Blob(chunks, { type: 'video/webm' }));
+            });
+            return { recorder, stopped };
+        });
+
+        // The pre-mixed track sets the clock; scenes are drawn against it as laid out by the timeline.
+        await audioContext.resume();
+        const startTime = audioContext.currentTime + 0.1;
+        const source = audioContext.createBufferSource();
+        source.buffer = audio;
+        source.connect(audioDestination);
+        source.start(startTime);
+        recordings.forEach(({ recorder }) => recorder.start());
+
+        try {
+            for (let i = 0; i < timeline.scenes.length; i++) {
+                const timelineScene = timeline.scenes[i];
+                const sceneVideo = sceneVideos[i];
+                const sceneEnd = startTime + timelineScene.start + timelineScene.duration;
+
+                await sleep(Math.max(0, (startTime + timelineScene.start - audioContext.currentTime) * 1000), signal);
+                if (sceneVideo instanceof HTMLVideoElement) {
+                    sceneVideo.currentTime = timelineScene.clipStart;
+                    await sceneVideo.play();
+                }
+
+                await new Promise<void>(resolve => {
+                    const renderFrame = () => {
+                        const time = audioContext.currentTime - startTime;
+                        if (sceneVideo instanceof HTMLVideoElement) keepClipInTrim(sceneVideo, timelineScene);
+                        drawFrame(time);
+                        onProgress(Math.min(1, time / audio.duration));
+                        if (audioContext.currentTime >= sceneEnd || signal.aborted) {
+                            resolve();
+                            return;
+                        }
+                        requestAnimationFrame(renderFrame);
+                    };
+                    requestAnimationFrame(renderFrame);
+                });
+                // The previous clip played on under the transition into this scene; this one does into the next.
+                pauseSceneMedia(sceneVideos[i - 1]);
+                throwIfCancelled(signal);
+            }
+            pauseSceneMedia(sceneVideos[sceneVideos.length - 1]);
+
+            drawEndCards();
+            await sleep(Math.max(0, (startTime + audio.duration - audioContext.currentTime) * 1000), signal);
+        } finally {
+            recordings.forEach(({ recorder }) => recorder.stop());
+        }
+        const blobs = await Promise.all(recordings.map(({ stopped }) => stopped));
+        throwIfCancelled(signal);
+        return blobs;
+    } finally {
+        audioContext.close();
+    }
+}
@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export class CancelledError extends Error {
+    constructor() {
+        super('The operation was cancelled.');
+        this.name = 'CancelledError';
+    }
+}
+
+// Thrown for non-2xx responses from providers we call with plain `fetch` (e.g. ElevenLabs).
+export class HttpError extends Error {
+    constructor(message: string, public readonly status: number) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+export type RetryOptions = {
+    maxRetries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+};
+
+export const DEFAULT_RETRY: RetryOptions = { maxRetries: 4, baseDelayMs: 2000, maxDelayMs: 60000 };
+
+export type QueueProgress = {
+    total: number;
+    completed: number;
+    running: number;
+    // Estimated time left, or null until at least one job has finished.
+    remainingMs: number | null;
+};
+
+export function statusOf(error: unknown): number | null {
+    if (error instanceof HttpError) return error.status;
+    // The GenAI SDK reports HTTP failures as ClientError/ServerError with the status in the message.
+    const match = error instanceof Error ? /got status: (\d{3})/.exec(error.message) : null;
+    return match ? Number(match[1]) : null;
+}
+
+export function isTransientError(error: unknown): boolean {
+    const status = statusOf(error);
+    if (status !== null) return status === 408 || status === 429 || status >= 500;
+    if (error instanceof Error) {
+        // `fetch` rejects with a TypeError on network failures; Gemini also surfaces quota errors by name.
+        if (error.name === 'TypeError' && /fetch|network/i.test(error.message)) return true;
+        return /RESOURCE_EXHAUSTED|UNAVAILABLE|rate limit/i.test(error.message);
+    }
+    return false;
+}
+
+export function throwIfCancelled(signal?: AbortSignal) {
+    if (signal?.aborted) throw new CancelledError();
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new CancelledError());
+            return;
+        }
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new CancelledError());
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Runs `task`, retrying transient failures (429, 5xx, network errors) with exponential backoff and jitter.
+ */
+export async function withRetry<T>(
+    task: () => Promise<T>,
+    signal?: AbortSignal,
+    options: RetryOptions = DEFAULT_RETRY,
+): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+        throwIfCancelled(signal);
+        try {
+            return await task();
+        } catch (error) {
+            if (signal?.aborted) throw new CancelledError();
+            if (attempt >= options.maxRetries || !isTransientError(error)) throw error;
+
+            const backoff = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+            const delay = backoff / 2 + Math.random() * (backoff / 2);
+            console.warn(`Transient error, retrying in ${Math.round(delay / 1000)}s (attempt ${attempt + 1}/${options.maxRetries}):`, error);
+            await sleep(delay, signal);
+        }
+    }
+}
+
+/**
+ * Runs `worker` over `items` with at most `concurrency` jobs in flight. Jobs handle their own
+ * failures; once `signal` aborts no new jobs are started and the queue resolves when running ones settle.
+ */
+export async function runQueue<T>(
+    items: T[],
+    worker: (item: T, index: number) => Promise<void>,
+    options: { concurrency: number; signal?: AbortSignal; onProgress?: (progress: QueueProgress) => void },
+): Promise<void> {
+    const { concurrency, signal, onProgress } = options;
+    const startedAt = Date.now();
+    let nextIndex = 0;
+    let completed = 0;
+    let running = 0;
+
+    const report = () => {
+        const elapsed = Date.now() - startedAt;
+        const remainingJobs = items.length - completed;
+        // Average wall-clock time per finished job already accounts for the parallelism.
+        const remainingMs = completed > 0 ? (elapsed / completed) * remainingJobs : null;
+        onProgress?.({ total: items.length, completed, running, remainingMs });
+    };
+
+    const lane = async () => {
+        while (nextIndex < items.length && !signal?.aborted) {
+            const index = nextIndex++;
+            running++;
+            report();
+            try {
+                await worker(items[index], index);
+            } finally {
+                running--;
+                completed++;
+                report();
+            }
+        }
+    };
+
+    report();
+    const lanes = Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, lane);
+    await Promise.all(lanes);
+}
+
+export function formatRemaining(ms: number | null): string {
+    if (ms === null) return '';
+    const seconds = Math.round(ms / 1000);
+    if (seconds < 60) return `~${Math.max(1, seconds)}s left`;
+    return `~${Math.round(seconds / 60)} min left`;
+}
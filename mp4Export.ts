@@ -0,0 +1,152 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ArrayBufferTarget, Muxer } from "mp4-muxer";
+import { sleep, throwIfCancelled } from "./jobQueue";
+
+export type Mp4Settings = {
+    width: number;
+    height: number;
+    fps: number;
+    // Target video bitrate in bits per second.
+    videoBitrate: number;
+};
+
+export const AUDIO_SAMPLE_RATE = 48000;
+const AUDIO_BITRATE = 128_000;
+// H.264 High profile, level 4.2: enough for 1080x1920 at 60 fps.
+const H264_CODEC = 'avc1.64002a';
+const AAC_CODEC = 'mp4a.40.2';
+// Frames queued in the encoder before rendering waits, to keep memory flat on long ads.
+const MAX_ENCODE_QUEUE = 8;
+const KEYFRAME_INTERVAL_SECONDS = 2;
+
+function videoConfig({ width, height, fps, videoBitrate }: Mp4Settings): VideoEncoderConfig {
+    return { codec: H264_CODEC, width, height, framerate: fps, bitrate: videoBitrate, avc: { format: 'avc' } };
+}
+
+function audioConfig(numberOfChannels: number): AudioEncoderConfig {
+    return { codec: AAC_CODEC, sampleRate: AUDIO_SAMPLE_RATE, numberOfChannels, bitrate: AUDIO_BITRATE };
+}
+
+export type Mp4Output = {
+    settings: Mp4Settings;
+    canvas: HTMLCanvasElement;
+};
+
+/**
+ * Whether this browser can encode H.264 video and AAC audio with WebCodecs (Chromium-based browsers do;
+ * Firefox can't encode AAC).
+ */
+export async function supportsMp4Export(settings: Mp4Settings[]): Promise<boolean> {
+    if (typeof VideoEncoder === 'undefined' || typeof AudioEncoder === 'undefined') return false;
+    try {
+        const results = await Promise.all([
+            ...settings.map(s => VideoEncoder.isConfigSupported(videoConfig(s))),
+            AudioEncoder.isConfigSupported(audioConfig(2)),
+        ]);
+        return results.every(result => !!result.supported);
+    } catch {
+        return false;
+    }
+}
+
+// The audio is encoded once and the same chunks are muxed into every output.
+async function encodeAudio(audio: AudioBuffer, muxers: Muxer<ArrayBufferTarget>[], signal?: AbortSignal) {
+    let encodeError: unknown = null;
+    const encoder = new AudioEncoder({
+        output: (chunk, meta) => muxers.forEach(muxer => muxer.addAudioChunk(chunk, meta)),
+        error: e => { encodeError = e; },
+    });
+    encoder.configure(audioConfig(audio.numberOfChannels));
+    try {
+        // One-second planar chunks.
+        for (let offset = 0; offset < audio.length; offset += audio.sampleRate) {
+            throwIfCancelled(signal);
+            if (encodeError) throw encodeError;
+            const frames = Math.min(audio.sampleRate, audio.length - offset);
+            const data = new Float32Array(frames * audio.numberOfChannels);
+            for (let channel = 0; channel < audio.numberOfChannels; channel++) {
+                data.set(audio.getChannelData(channel).subarray(offset, offset + frames), channel * frames);
+            }
+            const audioData = new AudioData({
+                format: 'f32-planar',
+                sampleRate: audio.sampleRate,
+                numberOfFrames: frames,
+                numberOfChannels: audio.numberOfChannels,
+                timestamp: Math.round((offset / audio.sampleRate) * 1e6),
+                data,
+            });
+            encoder.encode(audioData);
+            audioData.close();
+        }
+        await encoder.flush();
+        if (encodeError) throw encodeError;
+    } finally {
+        if (encoder.state !== 'closed') encoder.close();
+    }
+}
+
+/**
+ * Renders `duration` seconds of video frame by frame, independent of playback speed. For each frame,
+ * `renderFrame` draws `time` onto every output's canvas; each canvas is encoded as H.264 into its own
+ * MP4, all sharing the AAC-encoded `audio`. All outputs must use the same frame rate.
+ */
+export async function encodeMp4(options: {
+    outputs: Mp4Output[];
+    duration: number;
+    audio: AudioBuffer | null;
+    renderFrame: (time: number) => Promise<void>;
+    signal?: AbortSignal;
+    onProgress?: (fraction: number) => void;
+}): Promise<Blob[]> {
+    const { outputs, duration, audio, renderFrame, signal, onProgress } = options;
+    const fps = outputs[0].settings.fps;
+    let encodeError: unknown = null;
+    const tracks = outputs.map(({ settings, canvas }) => {
+        const muxer = new Muxer({
+            target: new ArrayBufferTarget(),
+            video: { codec: 'avc', width: settings.width, height: settings.height, frameRate: fps },
+            audio: audio ? { codec: 'aac', numberOfChannels: audio.numberOfChannels, sampleRate: audio.sampleRate } : undefined,
+            fastStart: 'in-memory',
+        });
+        const encoder = new VideoEncoder({
+            output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+            error: e => { encodeError = e; },
+        });
+        encoder.configure(videoConfig(settings));
+        return { muxer, encoder, canvas };
+    });
+
+    const frameCount = Math.ceil(duration * fps);
+    const frameDuration = 1e6 / fps;
+    const keyframeInterval = fps * KEYFRAME_INTERVAL_SECONDS;
+    try {
+        for (let frame = 0; frame < frameCount; frame++) {
+            throwIfCancelled(signal);
+            if (encodeError) throw encodeError;
+            await renderFrame(frame / fps);
+            for (const { encoder, canvas } of tracks) {
+                const videoFrame = new VideoFrame(canvas, { timestamp: Math.round(frame * frameDuration), duration: Math.round(frameDuration) });
+                encoder.encode(videoFrame, { keyFrame: frame % keyframeInterval === 0 });
+                videoFrame.close();
+            }
+            while (tracks.some(({ encoder }) => encoder.encodeQueueSize > MAX_ENCODE_QUEUE)) {
+                await sleep(5, signal);
+            }
+            onProgress?.((frame + 1) / frameCount);
+        }
+        await Promise.all(tracks.map(({ encoder }) => encoder.flush()));
+        if (encodeError) throw encodeError;
+    } finally {
+        tracks.forEach(({ encoder }) => encoder.state !== 'closed' && encoder.close());
+    }
+
+    if (audio) await encodeAudio(audio, tracks.map(({ muxer }) => muxer), signal);
+    return tracks.map(({ muxer }) => {
+        muxer.finalize();
+        return new Blob([muxer.target.buffer], { type: 'video/mp4' });
+    });
+}
@@ -0,0 +1,200 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Schema, Type } from "@google/genai";
+import type { AspectRatio, LegacyPostCopy, Platform, PlatformCopy, PostCopy } from "./types";
+
+export const HOOK_COUNT = 3;
+export const CTA_COUNT = 3;
+
+export type PlatformSpec = {
+    label: string;
+    // Hard limit on the post text (caption plus hashtags), in characters.
+    captionLimit: number;
+    // Characters shown before the post is cut off with "more"; the hook has to land within them.
+    foldLength: number | null;
+    // How many hashtags to ask for, and the most the platform allows or rewards.
+    hashtags: { suggested: number; max: number };
+    // Only YouTube Shorts has a title field.
+    titleLimit: number | null;
+    // Tone and format guidance for the prompt.
+    style: string;
+};
+
+export const PLATFORMS: Record<Platform, PlatformSpec> = {
+    tiktok: {
+        label: 'TikTok', captionLimit: 2200, foldLength: 100, hashtags: { suggested: 4, max: 8 }, titleLimit: null,
+        style: 'casual and trend-aware, written like a creator talking to their followers, emoji welcome',
+    },
+    reels: {
+        // Instagram caps posts at five hashtags.
+        label: 'Instagram Reels', captionLimit: 2200, foldLength: 125, hashtags: { suggested: 3, max: 5 }, titleLimit: null,
+        style: 'visual and lifestyle-led, with line breaks between ideas and a few emoji',
+    },
+    shorts: {
+        // YouTube ignores every hashtag on a video that has more than 15.
+        label: 'YouTube Shorts', captionLimit: 5000, foldLength: 100, hashtags: { suggested: 3, max: 15 }, titleLimit: 100,
+        style: 'search-friendly: a curiosity-driven title with the key term early and a descriptive description',
+    },
+    facebook: {
+        label: 'Facebook', captionLimit: 63206, foldLength: 125, hashtags: { suggested: 2, max: 5 }, titleLimit: null,
+        style: 'conversational and community-focused, inviting comments and shares',
+    },
+    linkedin: {
+        label: 'LinkedIn', captionLimit: 3000, foldLength: 210, hashtags: { suggested: 3, max: 5 }, titleLimit: null,
+        style: 'professional and value-led, with a concrete benefit or insight and no slang',
+    },
+    x: {
+        label: 'X', captionLimit: 280, foldLength: null, hashtags: { suggested: 1, max: 2 }, titleLimit: null,
+        style: 'punchy and to the point, one idea per post',
+    },
+};
+
+// Where a campaign's ad most naturally goes, used until the user picks platforms themselves.
+export function defaultPlatforms(format: AspectRatio): Platform[] {
+    return {
+        '9:16': ['tiktok', 'reels', 'shorts'],
+        '1:1': ['reels', 'facebook', 'linkedin'],
+        '4:5': ['reels', 'facebook'],
+        '16:9': ['facebook', 'linkedin', 'x'],
+    }[format] as Platform[];
+}
+
+export function platformCopySchema(platform: Platform): Schema {
+    const spec = PLATFORMS[platform];
+    const properties: Record<string, Schema> = {
+        hooks: {
+            type: Type.ARRAY, items: { type: Type.STRING }, minItems: String(HOOK_COUNT), maxItems: String(HOOK_COUNT),
+            description: 'Alternative attention-grabbing opening lines.',
+        },
+        caption: { type: Type.STRING, description: 'A short caption that opens with a hook and ends with a call to action.' },
+        long_caption: { type: Type.STRING, description: 'A longer caption that tells the story and ends with a call to action.' },
+        ctas: {
+            type: Type.ARRAY, items: { type: Type.STRING }, minItems: String(CTA_COUNT), maxItems: String(CTA_COUNT),
+            description: 'Alternative calls to action.',
+        },
+        hashtags: {
+            type: Type.ARRAY, items: { type: Type.STRING }, minItems: '1', maxItems: String(spec.hashtags.max),
+        },
+    };
+    if (spec.titleLimit) {
+        properties.title = { type: Type.STRING, description: `Video title, at most ${spec.titleLimit} characters.` };
+    }
+    const required = [...(spec.titleLimit ? ['title'] : []), 'hooks', 'caption', 'long_caption', 'ctas', 'hashtags'];
+    return { type: Type.OBJECT, properties, required, propertyOrdering: required };
+}
+
+// Counts what the user sees as characters, so emoji and accented letters count once.
+export function characterCount(text: string): number {
+    return [...text].length;
+}
+
+// The text as pasted into the platform: the caption followed by its hashtags.
+export function postText(copy: PlatformCopy, caption: string = copy.caption): string {
+    return copy.hashtags.length ? `${caption}\n\n${copy.hashtags.join(' ')}` : caption;
+}
+
+function normalizeHashtag(tag: string): string {
+    const word = tag.trim().replace(/^#+/, '').replace(/[^\p{L}\p{N}_]/gu, '');
+    return word ? `#${word}` : '';
+}
+
+function readStrings(value: unknown): string[] {
+    return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && !!item.trim()).map(item => item.trim()) : [];
+}
+
+/**
+ * Reads a model response for one platform, fixing what can be fixed in place (hashtag formatting,
+ * duplicates, too many hashtags). Returns null when the response isn't shaped like post copy.
+ */
+export function readPlatformCopy(raw: unknown, platform: Platform): { copy: PlatformCopy | null; repairs: string[] } {
+    const repairs: string[] = [];
+    const data = raw as Record<string, unknown> | null;
+    if (!data || typeof data !== 'object') return { copy: null, repairs };
+
+    const spec = PLATFORMS[platform];
+    const rawHashtags = readStrings(data.hashtags);
+    let hashtags = [...new Set(rawHashtags.map(normalizeHashtag).filter(Boolean))];
+    if (hashtags.length !== rawHashtags.length || hashtags.some((tag, i) => tag !== rawHashtags[i])) {
+        repairs.push('Normalized the hashtags.');
+    }
+    if (hashtags.length > spec.hashtags.max) {
+        repairs.push(`Dropped ${hashtags.length - spec.hashtags.max} hashtag(s) over the limit of ${spec.hashtags.max}.`);
+        hashtags = hashtags.slice(0, spec.hashtags.max);
+    }
+
+    const text = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+    return {
+        copy: {
+            platform,
+            title: spec.titleLimit ? text(data.title) : '',
+            hooks: readStrings(data.hooks),
+            caption: text(data.caption),
+            longCaption: text(data.long_caption),
+            ctas: readStrings(data.ctas),
+            hashtags,
+        },
+        repairs,
+    };
+}
+
+/**
+ * Everything about the copy that breaks the platform's limits or leaves a field empty. Used both to
+ * re-prompt the model and to flag copy that still doesn't fit.
+ */
+export function platformCopyProblems(copy: PlatformCopy): string[] {
+    const spec = PLATFORMS[copy.platform];
+    const problems: string[] = [];
+    if (spec.titleLimit) {
+        if (!copy.title) problems.push('The title is empty.');
+        else if (characterCount(copy.title) > spec.titleLimit) {
+            problems.push(`The title is ${characterCount(copy.title)} characters; the limit is ${spec.titleLimit}.`);
+        }
+    }
+    if (!copy.caption) problems.push('The caption is empty.');
+    if (!copy.longCaption) problems.push('The long caption is empty.');
+    if (copy.hooks.length < HOOK_COUNT) problems.push(`Expected ${HOOK_COUNT} hooks but got ${copy.hooks.length}.`);
+    if (copy.ctas.length < CTA_COUNT) problems.push(`Expected ${CTA_COUNT} calls to action but got ${copy.ctas.length}.`);
+    if (!copy.hashtags.length) problems.push('There are no hashtags.');
+
+    for (const [label, caption] of [['caption', copy.caption], ['long caption', copy.longCaption]]) {
+        const length = characterCount(postText(copy, caption));
+        if (caption && length > spec.captionLimit) {
+            problems.push(`The ${label} with its hashtags is ${length} characters; the limit is ${spec.captionLimit}.`);
+        }
+    }
+    if (spec.foldLength) {
+        copy.hooks.forEach((hook, i) => {
+            if (characterCount(hook) > spec.foldLength!) {
+                problems.push(`Hook ${i + 1} is ${characterCount(hook)} characters; only the first ${spec.foldLength} show before "more".`);
+            }
+        });
+    }
+    return problems;
+}
+
+// Older campaigns kept one caption for every platform; it's shown as copy for the format's main platform.
+export function upgradePostCopy(copy: PostCopy | LegacyPostCopy | null, format: AspectRatio): PostCopy | null {
+    if (!copy) return null;
+    if ('platforms' in copy) return copy;
+    const [platform] = defaultPlatforms(format);
+    return {
+        platforms: [{ platform, title: '', hooks: [], caption: copy.caption, longCaption: '', ctas: [], hashtags: copy.hashtags }],
+    };
+}
+
+// Every platform's post as Markdown, for handing the copy over outside the app.
+export function postCopyMarkdown(postCopy: PostCopy): string {
+    const platforms = postCopy.platforms.map(copy => {
+        const sections = [`## ${PLATFORMS[copy.platform].label}`];
+        if (copy.title) sections.push(`### Title\n\n${copy.title}`);
+        sections.push(`### Post\n\n${postText(copy)}`);
+        if (copy.longCaption) sections.push(`### Long post\n\n${postText(copy, copy.longCaption)}`);
+        if (copy.hooks.length) sections.push(`### Hooks\n\n${copy.hooks.map(hook => `- ${hook}`).join('\n')}`);
+        if (copy.ctas.length) sections.push(`### Calls to action\n\n${copy.ctas.map(cta => `- ${cta}`).join('\n')}`);
+        return sections.join('\n\n');
+    });
+    return `# Post copy\n\n${platforms.join('\n\n')}\n`;
+}
@@ -0,0 +1,599 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Unzipped, Zippable, strFromU8, strToU8, unzip, zip } from "fflate";
+import { parseBrandKit } from "./brandKit";
+import type { StoredCampaign, StoredSceneAsset } from "./campaignStore";
+import { DEFAULT_END_CARD } from "./endCard";
+import { AD_FORMATS } from "./formats";
+import { PLATFORMS } from "./postCopy";
+import { PROVIDER_CONFIG, ProviderConfig } from "./providers";
+import { Scene, Storyboard, checkStoryboard } from "./storyboard";
+import { MAX_TEMPLATE_SCENES, MIN_TEMPLATE_SCENES } from "./templates";
+import { CREATIVE_ANGLES, StoryboardVariant } from "./variants";
+import { DEFAULT_VIDEO_SETTINGS, MAX_SEED, MAX_VIDEO_SECONDS, MAX_VIDEO_TAKES, MIN_VIDEO_SECONDS, PERSON_GENERATION_LABELS } from "./videoSettings";
+import type {
+    AspectRatio, AssetStatus, BrandKit, CampaignInputs, CreativeAngle, EndCard, LegacyPostCopy, MusicBed, PersonGeneration, Platform,
+    PlatformCopy, PostCopy, ReferenceImage, TextAnimation, TransitionKind, UserMedia, VideoSettings, VoiceSettings, WordTiming,
+} from "./types";
+
+const PROJECT_FILE_KIND = 'automace-project';
+const PROJECT_FILE_VERSION = 1;
+const MANIFEST_PATH = 'manifest.json';
+
+// Points at a file inside the ZIP; the MIME type is kept so the Blob comes back exactly as it was.
+type FileRef = { path: string; type: string };
+
+type ManifestScene = {
+    status: { image: AssetStatus; video: AssetStatus; vo: AssetStatus };
+    videoOperationName?: string;
+    // Every take, with the index of the selected one (-1 for none).
+    images: { file: FileRef; source: FileRef; createdAt: number }[];
+    selectedImage: number;
+    videos: { file: FileRef; createdAt: number }[];
+    selectedVideo: number;
+    voiceovers: { file: FileRef; words?: WordTiming[]; createdAt: number }[];
+    selectedVoiceover: number;
+    userMedia?: Omit<UserMedia, 'blob' | 'url'> & { file: FileRef };
+};
+
+/**
+ * Describes everything in a project ZIP. Campaign fields that are plain data are stored as they are;
+ * every Blob and image is replaced by a reference to its own file.
+ */
+export type ProjectManifest = {
+    kind: typeof PROJECT_FILE_KIND;
+    version: number;
+    exportedAt: string;
+    // The providers and models the assets were generated with.
+    models: ProviderConfig;
+    campaign: Omit<StoredCampaign, 'logo' | 'sceneAssets' | 'music' | 'brandKit' | 'endCard' | 'references'>;
+    logo: FileRef | null;
+    // Missing from projects exported before reference photos existed.
+    references?: (Omit<ReferenceImage, 'base64' | 'mimeType'> & { file: FileRef })[];
+    music: (Omit<MusicBed, 'blob'> & { file: FileRef }) | null;
+    brandKit: (Omit<BrandKit, 'font'> & { font: { name: string; file: FileRef } | null }) | null;
+    endCard: (Omit<EndCard, 'backgroundImage'> & { backgroundImage: FileRef | null }) | null;
+    scenes: ManifestScene[];
+    // Readable extras for whoever receives the project; import rebuilds them rather than reading them.
+    captions: { srt: string; vtt: string } | null;
+    postCopy: string | null;
+};
+
+// Ready-made text files to include alongside the campaign.
+export type ProjectExtras = {
+    models: ProviderConfig;
+    captions: { srt: string; vtt: string } | null;
+    postCopyMarkdown: string | null;
+};
+
+export class ProjectImportError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ProjectImportError';
+    }
+}
+
+const EXTENSIONS: Record<string, string> = {
+    'image/png': 'png', 'image/jpeg': 'jpg', 'image/webp': 'webp', 'image/gif': 'gif',
+    'video/mp4': 'mp4', 'video/webm': 'webm', 'video/quicktime': 'mov',
+    'audio/mpeg': 'mp3', 'audio/wav': 'wav', 'audio/webm': 'webm', 'audio/ogg': 'ogg', 'audio/mp4': 'm4a',
+    'font/ttf': 'ttf', 'font/otf': 'otf', 'font/woff': 'woff', 'font/woff2': 'woff2',
+};
+
+function extensionFor(type: string): string {
+    return EXTENSIONS[type.split(';')[0]] ?? 'bin';
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+    let binary = '';
+    // Chunked so large images don't overflow the argument list.
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+}
+
+function parseDataUrl(dataUrl: string): { type: string; bytes: Uint8Array } {
+    const [header, data] = dataUrl.split(',');
+    return { type: /^data:([^;,]+)/.exec(header)?.[1] ?? 'application/octet-stream', bytes: base64ToBytes(data) };
+}
+
+// Collects files for the ZIP. Media is stored uncompressed: it's compressed already and deflating it only costs time.
+class ZipWriter {
+    readonly files: Zippable = {};
+
+    add(path: string, bytes: Uint8Array, type: string, compress = false): FileRef {
+        this.files[path] = compress ? bytes : [bytes, { level: 0 }];
+        return { path, type };
+    }
+
+    async addBlob(basePath: string, blob: Blob): Promise<FileRef> {
+        const type = blob.type || 'application/octet-stream';
+        return this.add(`${basePath}.${extensionFor(type)}`, new Uint8Array(await blob.arrayBuffer()), type);
+    }
+
+    addText(path: string, text: string, type: string): FileRef {
+        return this.add(path, strToU8(text), type, true);
+    }
+}
+
+async function writeScene(writer: ZipWriter, asset: StoredSceneAsset, index: number): Promise<ManifestScene> {
+    const dir = `scenes/scene-${String(index + 1).padStart(2, '0')}`;
+    // Campaigns saved before take history only have the selected take.
+    const images = asset.imageVariants ?? (asset.imageUrl && asset.imageB64 ? [{ imageUrl: asset.imageUrl, imageB64: asset.imageB64, imageMimeType: asset.imageMimeType, createdAt: 0 }] : []);
+    const videos = asset.videoVariants ?? (asset.videoBlob ? [{ videoBlob: asset.videoBlob, createdAt: 0 }] : []);
+    const voiceovers = asset.voVariants ?? (asset.audioBlob ? [{ audioBlob: asset.audioBlob, createdAt: 0 }] : []);
+
+    return {
+        status: { image: asset.imageStatus, video: asset.videoStatus, vo: asset.voStatus },
+        videoOperationName: asset.videoOperationName,
+        images: images.map((take, i) => {
+            const watermarked = parseDataUrl(take.imageUrl);
+            const sourceType = take.imageMimeType ?? 'image/png';
+            return {
+                file: writer.add(`${dir}/image-${i + 1}.${extensionFor(watermarked.type)}`, watermarked.bytes, watermarked.type),
+                // The image as generated, before the watermark; video generation starts from it.
+                source: writer.add(`${dir}/image-${i + 1}-source.${extensionFor(sourceType)}`, base64ToBytes(take.imageB64), sourceType),
+                createdAt: take.createdAt,
+            };
+        }),
+        selectedImage: images.findIndex(take => take.imageUrl === asset.imageUrl),
+        videos: await Promise.all(videos.map(async (take, i) => ({
+            file: await writer.addBlob(`${dir}/video-${i + 1}`, take.videoBlob),
+            createdAt: take.createdAt,
+        }))),
+        selectedVideo: videos.findIndex(take => take.videoBlob === asset.videoBlob),
+        voiceovers: await Promise.all(voiceovers.map(async (take, i) => ({
+            file: await writer.addBlob(`${dir}/voiceover-${i + 1}`, take.audioBlob),
+            words: 'words' in take ? take.words : undefined,
+            createdAt: take.createdAt,
+        }))),
+        selectedVoiceover: voiceovers.findIndex(take => take.audioBlob === asset.audioBlob),
+        userMedia: asset.userMedia && await writeUserMedia(writer, dir, asset.userMedia),
+    };
+}
+
+async function writeUserMedia(writer: ZipWriter, dir: string, { blob, url, ...media }: UserMedia): Promise<ManifestScene['userMedia']> {
+    return { ...media, file: await writer.addBlob(`${dir}/user-media`, blob) };
+}
+
+/**
+ * Packs a campaign and every generated asset (all takes, not just the selected ones) into a ZIP with
+ * a `manifest.json` describing how they fit together.
+ */
+export async function exportProject(campaign: StoredCampaign, extras: ProjectExtras): Promise<Blob> {
+    const { logo, sceneAssets, music, brandKit, endCard, references, ...rest } = campaign;
+    const writer = new ZipWriter();
+
+    const manifest: ProjectManifest = {
+        kind: PROJECT_FILE_KIND,
+        version: PROJECT_FILE_VERSION,
+        exportedAt: new Date().toISOString(),
+        models: extras.models,
+        campaign: rest,
+        logo: logo ? writer.add(`logo.${extensionFor(logo.mimeType)}`, base64ToBytes(logo.base64), logo.mimeType) : null,
+        references: (references ?? []).map((reference, i) => ({
+            id: reference.id,
+            name: reference.name,
+            file: writer.add(`references/reference-${i + 1}.${extensionFor(reference.mimeType)}`, base64ToBytes(reference.base64), reference.mimeType),
+        })),
+        music: music ? { trackId: music.trackId, name: music.name, volume: music.volume, file: await writer.addBlob('music', music.blob) } : null,
+        brandKit: brandKit
+            ? { ...brandKit, font: brandKit.font && { name: brandKit.font.name, file: await writer.addBlob('brand-font', brandKit.font.blob) } }
+            : null,
+        endCard: endCard
+            ? { ...endCard, backgroundImage: endCard.backgroundImage && await writer.addBlob('end-card-background', endCard.backgroundImage) }
+            : null,
+        scenes: [],
+        captions: extras.captions && {
+            srt: writer.addText('captions.srt', extras.captions.srt, 'application/x-subrip').path,
+            vtt: writer.addText('captions.vtt', extras.captions.vtt, 'text/vtt').path,
+        },
+        postCopy: extras.postCopyMarkdown && writer.addText('post-copy.md', extras.postCopyMarkdown, 'text/markdown').path,
+    };
+    for (const [index, asset] of sceneAssets.entries()) {
+        manifest.scenes.push(await writeScene(writer, asset, index));
+    }
+    writer.addText(MANIFEST_PATH, JSON.stringify(manifest, null, 2), 'application/json');
+
+    const bytes = await new Promise<Uint8Array>((resolve, reject) => {
+        zip(writer.files, (error, data) => error ? reject(error) : resolve(data));
+    });
+    return new Blob([bytes], { type: 'application/zip' });
+}
+
+// The manifest is rebuilt field by field rather than trusted: a crafted project could otherwise slip markup
+// or script into values the app shows, such as an id, a number or a MIME type.
+
+type JsonObject = Record<string, unknown>;
+
+// The type is copied into Blobs and data URLs, so only the ones the app itself reads are accepted.
+const FILE_TYPES: Record<'image' | 'video' | 'audio' | 'font', string[]> = {
+    image: ['image/png', 'image/jpeg', 'image/webp', 'image/gif', 'image/avif', 'image/bmp'],
+    video: ['video/mp4', 'video/webm', 'video/quicktime'],
+    audio: ['audio/mpeg', 'audio/mp3', 'audio/wav', 'audio/x-wav', 'audio/webm', 'audio/ogg', 'audio/mp4', 'audio/x-m4a', 'audio/aac', 'audio/flac'],
+    // Font files often have no registered type, so they're exported as application/octet-stream.
+    font: ['font/ttf', 'font/otf', 'font/woff', 'font/woff2', 'application/octet-stream'],
+};
+
+const ASPECT_RATIOS = Object.keys(AD_FORMATS) as AspectRatio[];
+const ASSET_STATUSES: AssetStatus[] = ['ready', 'generating', 'complete', 'failed'];
+const TRANSITION_KINDS: TransitionKind[] = ['cut', 'crossfade', 'slide', 'zoom', 'dip'];
+const TEXT_ANIMATIONS: TextAnimation[] = ['none', 'fade', 'pop', 'typewriter', 'words'];
+// The longest end card the editor offers.
+const MAX_END_CARD_SECONDS = 6;
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+function readObject(value: unknown, field: string): JsonObject {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) throw new ProjectImportError(`"${field}" must be an object.`);
+    return value as JsonObject;
+}
+
+function readText(value: unknown, field: string, fallback?: string): string {
+    if (value === undefined && fallback !== undefined) return fallback;
+    if (typeof value !== 'string') throw new ProjectImportError(`"${field}" must be text.`);
+    return value;
+}
+
+// Out-of-range numbers are clamped rather than refused, as they would be when edited in the app.
+function readNumber(value: unknown, field: string, min: number, max: number, fallback?: number): number {
+    if (value === undefined && fallback !== undefined) return fallback;
+    if (typeof value !== 'number' || !Number.isFinite(value)) throw new ProjectImportError(`"${field}" must be a number.`);
+    return Math.min(max, Math.max(min, value));
+}
+
+function readBoolean(value: unknown, field: string, fallback?: boolean): boolean {
+    if (value === undefined && fallback !== undefined) return fallback;
+    if (typeof value !== 'boolean') throw new ProjectImportError(`"${field}" must be true or false.`);
+    return value;
+}
+
+function readChoice<T extends string>(value: unknown, field: string, choices: T[], fallback?: T): T {
+    if (value === undefined && fallback !== undefined) return fallback;
+    if (!choices.includes(value as T)) throw new ProjectImportError(`"${field}" must be one of ${choices.join(', ')}.`);
+    return value as T;
+}
+
+function readColor(value: unknown, field: string, fallback?: string): string {
+    const color = readText(value, field, fallback);
+    if (!HEX_COLOR.test(color)) throw new ProjectImportError(`"${field}" must be a colour such as #ff8800.`);
+    return color;
+}
+
+function readList<T>(value: unknown, field: string, readItem: (item: unknown, field: string) => T): T[] {
+    if (!Array.isArray(value)) throw new ProjectImportError(`"${field}" must be a list.`);
+    return value.map((item, index) => readItem(item, `${field}[${index}]`));
+}
+
+function readTextList(value: unknown, field: string): string[] {
+    return readList(value, field, (item, itemField) => readText(item, itemField));
+}
+
+// Fields added after the first version may be missing, or null once cleared.
+function readOptional<T>(value: unknown, field: string, read: (value: unknown, field: string) => T): T | undefined {
+    return value == null ? undefined : read(value, field);
+}
+
+// The selected take, or -1 for none.
+function readTakeIndex(value: unknown, field: string, takes: number): number {
+    if (!Number.isInteger(value) || (value as number) < -1 || (value as number) >= takes) {
+        throw new ProjectImportError(`"${field}" must pick one of the scene's ${takes} take(s), or -1 for none.`);
+    }
+    return value as number;
+}
+
+function readFileRef(value: unknown, field: string, kind: keyof typeof FILE_TYPES): FileRef {
+    const ref = readObject(value, field);
+    // Parameters such as codecs aren't needed to play the file back.
+    const type = readText(ref.type, `${field}.type`).split(';')[0].trim().toLowerCase();
+    if (!FILE_TYPES[kind].includes(type)) throw new ProjectImportError(`"${field}" is not a supported ${kind} file.`);
+    return { path: readText(ref.path, `${field}.path`), type };
+}
+
+function readVoice(value: unknown, field: string): VoiceSettings {
+    const voice = readObject(value, field);
+    return {
+        voiceId: readText(voice.voiceId, `${field}.voiceId`, PROVIDER_CONFIG.voiceId),
+        stability: readNumber(voice.stability, `${field}.stability`, 0, 1, 0.5),
+        similarityBoost: readNumber(voice.similarityBoost, `${field}.similarityBoost`, 0, 1, 0.75),
+        style: readNumber(voice.style, `${field}.style`, 0, 1, 0),
+    };
+}
+
+function readVideoSettings(value: unknown, field: string): VideoSettings {
+    const video = readObject(value, field);
+    const { durationSeconds, negativePrompt, personGeneration, takes } = DEFAULT_VIDEO_SETTINGS;
+    return {
+        durationSeconds: Math.round(readNumber(video.durationSeconds, `${field}.durationSeconds`, MIN_VIDEO_SECONDS, MAX_VIDEO_SECONDS, durationSeconds)),
+        negativePrompt: readText(video.negativePrompt, `${field}.negativePrompt`, negativePrompt),
+        personGeneration: readChoice(video.personGeneration, `${field}.personGeneration`, Object.keys(PERSON_GENERATION_LABELS) as PersonGeneration[], personGeneration),
+        seed: readOptional(video.seed, `${field}.seed`, (seed, seedField) => Math.round(readNumber(seed, seedField, 0, MAX_SEED))) ?? null,
+        takes: Math.round(readNumber(video.takes, `${field}.takes`, 1, MAX_VIDEO_TAKES, takes)),
+    };
+}
+
+function readInputs(value: unknown): CampaignInputs {
+    const inputs = readObject(value, 'campaign.inputs');
+    return {
+        productDesc: readText(inputs.productDesc, 'campaign.inputs.productDesc'),
+        targetAudience: readText(inputs.targetAudience, 'campaign.inputs.targetAudience', ''),
+        format: readChoice(inputs.format, 'campaign.inputs.format', ASPECT_RATIOS),
+        scenesWanted: Math.round(readNumber(inputs.scenesWanted, 'campaign.inputs.scenesWanted', MIN_TEMPLATE_SCENES, MAX_TEMPLATE_SCENES, 3)),
+        watermarkText: readText(inputs.watermarkText, 'campaign.inputs.watermarkText', ''),
+        language: readText(inputs.language, 'campaign.inputs.language', 'English'),
+        voice: readVoice(inputs.voice ?? {}, 'campaign.inputs.voice'),
+        videoFit: readChoice(inputs.videoFit, 'campaign.inputs.videoFit', ['loop', 'freeze'], 'loop'),
+        video: readVideoSettings(inputs.video ?? {}, 'campaign.inputs.video'),
+        captions: readBoolean(inputs.captions, 'campaign.inputs.captions', true),
+    };
+}
+
+// checkStoryboard keeps only what the model writes; the settings added in the app are read here.
+function readSceneSettings(scene: Scene, value: unknown, field: string): Scene {
+    const data = readObject(value, field);
+    return {
+        ...scene,
+        role: readOptional(data.role, `${field}.role`, readText),
+        voice: readOptional(data.voice, `${field}.voice`, readVoice),
+        video: readOptional(data.video, `${field}.video`, readVideoSettings),
+        focalPoint: readOptional(data.focalPoint, `${field}.focalPoint`, (raw, pointField) => {
+            const point = readObject(raw, pointField);
+            return { x: readNumber(point.x, `${pointField}.x`, 0, 1), y: readNumber(point.y, `${pointField}.y`, 0, 1) };
+        }),
+        transition: readOptional(data.transition, `${field}.transition`, (raw, transitionField) => {
+            const transition = readObject(raw, transitionField);
+            return {
+                kind: readChoice(transition.kind, `${transitionField}.kind`, TRANSITION_KINDS),
+                color: readColor(transition.color, `${transitionField}.color`),
+            };
+        }),
+        textAnimations: readOptional(data.textAnimations, `${field}.textAnimations`, (raw, animationField) => {
+            const animations = readObject(raw, animationField);
+            return {
+                enter: readChoice(animations.enter, `${animationField}.enter`, TEXT_ANIMATIONS),
+                exit: readChoice(animations.exit, `${animationField}.exit`, TEXT_ANIMATIONS),
+            };
+        }),
+        references: readOptional(data.references, `${field}.references`, readTextList),
+        matchPreviousScene: readOptional(data.matchPreviousScene, `${field}.matchPreviousScene`, readBoolean),
+    };
+}
+
+function readStoryboard(value: unknown, field: string, sceneCount: number): Storyboard {
+    const { storyboard, errors } = checkStoryboard(value, sceneCount);
+    if (!storyboard || errors.length) throw new ProjectImportError(`"${field}" is not a valid storyboard. ${errors[0]}`);
+    const rawScenes = readList(readObject(value, field).scenes, `${field}.scenes`, item => item);
+    return { scenes: storyboard.scenes.map((scene, index) => readSceneSettings(scene, rawScenes[index], `${field}.scenes[${index}]`)) };
+}
+
+function readStoryboardVariant(value: unknown, field: string): StoryboardVariant {
+    const variant = readObject(value, field);
+    const scenes = readObject(variant.storyboard, `${field}.storyboard`).scenes;
+    return {
+        label: readText(variant.label, `${field}.label`),
+        angle: readChoice(variant.angle, `${field}.angle`, Object.keys(CREATIVE_ANGLES) as CreativeAngle[]),
+        storyboard: readStoryboard(variant.storyboard, `${field}.storyboard`, Array.isArray(scenes) ? scenes.length : 0),
+    };
+}
+
+function readPlatformCopy(value: unknown, field: string): PlatformCopy {
+    const copy = readObject(value, field);
+    return {
+        platform: readChoice(copy.platform, `${field}.platform`, Object.keys(PLATFORMS) as Platform[]),
+        title: readText(copy.title, `${field}.title`, ''),
+        hooks: readTextList(copy.hooks ?? [], `${field}.hooks`),
+        caption: readText(copy.caption, `${field}.caption`),
+        longCaption: readText(copy.longCaption, `${field}.longCaption`, ''),
+        ctas: readTextList(copy.ctas ?? [], `${field}.ctas`),
+        hashtags: readTextList(copy.hashtags, `${field}.hashtags`),
+    };
+}
+
+function readPostCopy(value: unknown, field: string): PostCopy | LegacyPostCopy {
+    const copy = readObject(value, field);
+    if (copy.platforms === undefined) {
+        return { caption: readText(copy.caption, `${field}.caption`), hashtags: readTextList(copy.hashtags, `${field}.hashtags`) };
+    }
+    return { platforms: readList(copy.platforms, `${field}.platforms`, readPlatformCopy) };
+}
+
+function readCampaign(value: unknown, sceneCount: number): ProjectManifest['campaign'] {
+    const campaign = readObject(value, 'campaign');
+    return {
+        id: readText(campaign.id, 'campaign.id'),
+        name: readText(campaign.name, 'campaign.name'),
+        createdAt: readNumber(campaign.createdAt, 'campaign.createdAt', 0, Number.MAX_SAFE_INTEGER),
+        updatedAt: readNumber(campaign.updatedAt, 'campaign.updatedAt', 0, Number.MAX_SAFE_INTEGER),
+        inputs: readInputs(campaign.inputs),
+        storyboard: readStoryboard(campaign.storyboard, 'campaign.storyboard', sceneCount),
+        postCopy: readOptional(campaign.postCopy, 'campaign.postCopy', readPostCopy) ?? null,
+        variant: readOptional(campaign.variant, 'campaign.variant', (raw, variantField) => {
+            const variant = readObject(raw, variantField);
+            return {
+                label: readText(variant.label, `${variantField}.label`),
+                angle: readOptional(variant.angle, `${variantField}.angle`, (angle, angleField) =>
+                    readChoice(angle, angleField, Object.keys(CREATIVE_ANGLES) as CreativeAngle[])) ?? null,
+            };
+        }) ?? null,
+        variants: readOptional(campaign.variants, 'campaign.variants', (raw, variantsField) => readList(raw, variantsField, readStoryboardVariant)),
+        complianceWaivers: readOptional(campaign.complianceWaivers, 'campaign.complianceWaivers', readTextList),
+        budget: readOptional(campaign.budget, 'campaign.budget', (raw, budgetField) => readNumber(raw, budgetField, 0, Infinity)) ?? null,
+    };
+}
+
+function readCreatedAt(value: unknown, field: string): number {
+    return readNumber(value, `${field}.createdAt`, 0, Number.MAX_SAFE_INTEGER);
+}
+
+function readUserMedia(value: unknown, field: string, files: Unzipped): UserMedia {
+    const media = readObject(value, field);
+    const kind = readChoice(media.kind, `${field}.kind`, ['image', 'video']);
+    const duration = readNumber(media.duration, `${field}.duration`, 0, Number.MAX_SAFE_INTEGER);
+    const trimStart = readNumber(media.trimStart, `${field}.trimStart`, 0, duration);
+    return {
+        kind,
+        name: readText(media.name, `${field}.name`),
+        blob: readBlob(files, readFileRef(media.file, `${field}.file`, kind)),
+        duration,
+        trimStart,
+        trimEnd: readNumber(media.trimEnd, `${field}.trimEnd`, trimStart, duration),
+    };
+}
+
+function readSceneAsset(value: unknown, field: string, files: Unzipped): StoredSceneAsset {
+    const scene = readObject(value, field);
+    const status = readObject(scene.status, `${field}.status`);
+    const images = readList(scene.images, `${field}.images`, (raw, takeField) => {
+        const take = readObject(raw, takeField);
+        const file = readFileRef(take.file, `${takeField}.file`, 'image');
+        const source = readFileRef(take.source, `${takeField}.source`, 'image');
+        return {
+            imageUrl: `data:${file.type};base64,${bytesToBase64(readFile(files, file))}`,
+            imageB64: bytesToBase64(readFile(files, source)),
+            imageMimeType: source.type,
+            createdAt: readCreatedAt(take.createdAt, takeField),
+        };
+    });
+    const videos = readList(scene.videos, `${field}.videos`, (raw, takeField) => {
+        const take = readObject(raw, takeField);
+        return { videoBlob: readBlob(files, readFileRef(take.file, `${takeField}.file`, 'video')), createdAt: readCreatedAt(take.createdAt, takeField) };
+    });
+    const voiceovers = readList(scene.voiceovers, `${field}.voiceovers`, (raw, takeField) => {
+        const take = readObject(raw, takeField);
+        return {
+            audioBlob: readBlob(files, readFileRef(take.file, `${takeField}.file`, 'audio')),
+            words: readOptional(take.words, `${takeField}.words`, (words, wordsField) => readList(words, wordsField, (rawWord, wordField): WordTiming => {
+                const word = readObject(rawWord, wordField);
+                return {
+                    word: readText(word.word, `${wordField}.word`),
+                    start: readNumber(word.start, `${wordField}.start`, 0, Number.MAX_SAFE_INTEGER),
+                    end: readNumber(word.end, `${wordField}.end`, 0, Number.MAX_SAFE_INTEGER),
+                };
+            })),
+            createdAt: readCreatedAt(take.createdAt, takeField),
+        };
+    });
+
+    // The selected take must be the same object as its entry in the take list.
+    const image = images[readTakeIndex(scene.selectedImage, `${field}.selectedImage`, images.length)];
+    return {
+        // Usage records aren't bundled, so there's nothing to keep the scene's old id for.
+        id: crypto.randomUUID(),
+        imageStatus: readChoice(status.image, `${field}.status.image`, ASSET_STATUSES),
+        videoStatus: readChoice(status.video, `${field}.status.video`, ASSET_STATUSES),
+        voStatus: readChoice(status.vo, `${field}.status.vo`, ASSET_STATUSES),
+        videoOperationName: readOptional(scene.videoOperationName, `${field}.videoOperationName`, readText),
+        imageVariants: images,
+        imageUrl: image?.imageUrl,
+        imageB64: image?.imageB64,
+        imageMimeType: image?.imageMimeType,
+        videoVariants: videos,
+        videoBlob: videos[readTakeIndex(scene.selectedVideo, `${field}.selectedVideo`, videos.length)]?.videoBlob,
+        voVariants: voiceovers,
+        audioBlob: voiceovers[readTakeIndex(scene.selectedVoiceover, `${field}.selectedVoiceover`, voiceovers.length)]?.audioBlob,
+        userMedia: readOptional(scene.userMedia, `${field}.userMedia`, (raw, mediaField) => readUserMedia(raw, mediaField, files)),
+    };
+}
+
+function readBrandKitEntry(value: unknown, files: Unzipped): BrandKit {
+    const kit = readObject(value, 'brandKit');
+    const font = readOptional(kit.font, 'brandKit.font', (raw, fontField) => {
+        const data = readObject(raw, fontField);
+        return { name: readText(data.name, `${fontField}.name`), blob: readBlob(files, readFileRef(data.file, `${fontField}.file`, 'font')) };
+    });
+    return parseBrandKit(kit, readText(kit.id, 'brandKit.id'), font ?? null, message => new ProjectImportError(message));
+}
+
+function readEndCard(value: unknown, files: Unzipped): EndCard {
+    const card = readObject(value, 'endCard');
+    return {
+        cta: readText(card.cta, 'endCard.cta', DEFAULT_END_CARD.cta),
+        url: readText(card.url, 'endCard.url', DEFAULT_END_CARD.url),
+        showQrCode: readBoolean(card.showQrCode, 'endCard.showQrCode', DEFAULT_END_CARD.showQrCode),
+        offer: readText(card.offer, 'endCard.offer', DEFAULT_END_CARD.offer),
+        background: readChoice(card.background, 'endCard.background', ['brand', 'color', 'image'], DEFAULT_END_CARD.background),
+        backgroundColor: readColor(card.backgroundColor, 'endCard.backgroundColor', DEFAULT_END_CARD.backgroundColor),
+        backgroundImage: readOptional(card.backgroundImage, 'endCard.backgroundImage', (raw, imageField) => readBlob(files, readFileRef(raw, imageField, 'image'))) ?? null,
+        duration: readNumber(card.duration, 'endCard.duration', 0, MAX_END_CARD_SECONDS, DEFAULT_END_CARD.duration),
+    };
+}
+
+function readFile(files: Unzipped, ref: FileRef): Uint8Array {
+    const bytes = files[ref.path];
+    if (!bytes) throw new ProjectImportError(`The project is missing "${ref.path}".`);
+    return bytes;
+}
+
+function readBlob(files: Unzipped, ref: FileRef): Blob {
+    return new Blob([readFile(files, ref)], { type: ref.type });
+}
+
+/**
+ * Unpacks a project ZIP back into a campaign record, ready to be saved and opened. Throws
+ * ProjectImportError with a message fit to show the user when the file isn't a valid project.
+ */
+export async function importProject(file: Blob): Promise<StoredCampaign> {
+    let files: Unzipped;
+    try {
+        const bytes = new Uint8Array(await file.arrayBuffer());
+        files = await new Promise<Unzipped>((resolve, reject) => {
+            unzip(bytes, (error, data) => error ? reject(error) : resolve(data));
+        });
+    } catch {
+        throw new ProjectImportError('The file is not a ZIP archive.');
+    }
+    if (!files[MANIFEST_PATH]) throw new ProjectImportError('The ZIP has no manifest.json, so it is not an AutoMACE project.');
+
+    let raw: unknown;
+    try {
+        raw = JSON.parse(strFromU8(files[MANIFEST_PATH]));
+    } catch {
+        throw new ProjectImportError('The project manifest is not valid JSON.');
+    }
+    const manifest = readObject(raw, 'manifest');
+    if (manifest.kind !== PROJECT_FILE_KIND) throw new ProjectImportError('The file is not an AutoMACE project.');
+    if (Number(manifest.version) > PROJECT_FILE_VERSION) {
+        throw new ProjectImportError('The project was exported by a newer version of AutoMACE.');
+    }
+    if (!Array.isArray(manifest.scenes)) throw new ProjectImportError('The project manifest is incomplete.');
+
+    return {
+        ...readCampaign(manifest.campaign, manifest.scenes.length),
+        logo: readOptional(manifest.logo, 'logo', (value, field) => {
+            const logo = readFileRef(value, field, 'image');
+            return { base64: bytesToBase64(readFile(files, logo)), mimeType: logo.type };
+        }) ?? null,
+        references: readOptional(manifest.references, 'references', (value, field) => readList(value, field, (item, itemField) => {
+            const reference = readObject(item, itemField);
+            const image = readFileRef(reference.file, `${itemField}.file`, 'image');
+            return {
+                id: readText(reference.id, `${itemField}.id`),
+                name: readText(reference.name, `${itemField}.name`),
+                base64: bytesToBase64(readFile(files, image)),
+                mimeType: image.type,
+            };
+        })) ?? [],
+        sceneAssets: manifest.scenes.map((scene, index) => readSceneAsset(scene, `scenes[${index}]`, files)),
+        music: readOptional(manifest.music, 'music', (value, field) => {
+            const music = readObject(value, field);
+            return {
+                trackId: readText(music.trackId, `${field}.trackId`),
+                name: readText(music.name, `${field}.name`),
+                volume: readNumber(music.volume, `${field}.volume`, 0, 1),
+                blob: readBlob(files, readFileRef(music.file, `${field}.file`, 'audio')),
+            };
+        }) ?? null,
+        brandKit: readOptional(manifest.brandKit, 'brandKit', value => readBrandKitEntry(value, files)),
+        endCard: readOptional(manifest.endCard, 'endCard', value => readEndCard(value, files)),
+    };
+}
@@ -0,0 +1,104 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { HttpError } from "../jobQueue";
+import type { WordTiming } from "../types";
+import type { SpeechProvider, Voice } from "./types";
+
+const ELEVENLABS_API_URL = 'https://api.elevenlabs.io/v1';
+
+type CharacterAlignment = {
+    characters: string[];
+    character_start_times_seconds: number[];
+    character_end_times_seconds: number[];
+};
+
+function wordsFromAlignment(alignment: CharacterAlignment): WordTiming[] {
+    const words: WordTiming[] = [];
+    let current: WordTiming | null = null;
+    alignment.characters.forEach((character, i) => {
+        if (/\s/.test(character)) {
+            current = null;
+            return;
+        }
+        if (!current) {
+            current = { word: '', start: alignment.character_start_times_seconds[i], end: 0 };
+            words.push(current);
+        }
+        current.word += character;
+        current.end = alignment.character_end_times_seconds[i];
+    });
+    return words;
+}
+
+function base64ToBlob(base64: string, mimeType: string): Blob {
+    const bytes = Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+    return new Blob([bytes], { type: mimeType });
+}
+
+// The ElevenLabs key is entered in the setup form, so it is read at call time rather than at construction.
+export function createElevenLabsSpeechProvider(model: string, getApiKey: () => string | null): SpeechProvider {
+    const requireApiKey = () => {
+        const apiKey = getApiKey();
+        if (!apiKey) {
+            throw new Error("ElevenLabs API Key is not configured.");
+        }
+        return apiKey;
+    };
+
+    return {
+        model,
+        async synthesize({ text, voice, signal }) {
+            const apiKey = requireApiKey();
+            // The timestamped endpoint returns the audio as base64 alongside per-character timings.
+            const response = await fetch(`${ELEVENLABS_API_URL}/text-to-speech/${voice.voiceId}/with-timestamps`, {
+                method: 'POST',
+                headers: {
+                    'Accept': 'application/json',
+                    'Content-Type': 'application/json',
+                    'xi-api-key': apiKey
+                },
+                body: JSON.stringify({
+                    text,
+                    model_id: model,
+                    voice_settings: {
+                        stability: voice.stability,
+                        similarity_boost: voice.similarityBoost,
+                        style: voice.style,
+                    }
+                }),
+                signal,
+            });
+
+            if (!response.ok) {
+                const errorData = await response.text();
+                throw new HttpError(`ElevenLabs API Error: ${response.statusText} - ${errorData}`, response.status);
+            }
+            const data = await response.json() as { audio_base64: string; alignment: CharacterAlignment | null };
+            return {
+                audio: base64ToBlob(data.audio_base64, 'audio/mpeg'),
+                words: data.alignment ? wordsFromAlignment(data.alignment) : null,
+            };
+        },
+        async listVoices(signal) {
+            const response = await fetch(`${ELEVENLABS_API_URL}/voices`, {
+                headers: { 'xi-api-key': requireApiKey() },
+                signal,
+            });
+            if (!response.ok) {
+                const errorData = await response.text();
+                throw new HttpError(`ElevenLabs API Error: ${response.statusText} - ${errorData}`, response.status);
+            }
+            const data = await response.json() as {
+                voices: { voice_id: string; name: string; category?: string; labels?: Record<string, string> }[];
+            };
+            return data.voices.map((voice): Voice => ({
+                id: voice.voice_id,
+                name: voice.name,
+                description: [...Object.values(voice.labels ?? {}), voice.category].filter(Boolean).join(', '),
+            }));
+        },
+    };
+}
@@ -0,0 +1,98 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GenerateContentResponse, GenerateVideosOperation, GoogleGenAI, Modality } from "@google/genai";
+import { HttpError } from "../jobQueue";
+import type { ImageProvider, TextProvider, TokenUsage, VideoOperation, VideoProvider } from "./types";
+
+const VEO_POLLING_INTERVAL = 10000; // 10 seconds
+
+function tokenUsage(response: GenerateContentResponse): TokenUsage | null {
+    const usage = response.usageMetadata;
+    if (!usage) return null;
+    return {
+        inputTokens: usage.promptTokenCount ?? 0,
+        outputTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0),
+    };
+}
+
+export function createGeminiTextProvider(ai: GoogleGenAI, model: string): TextProvider {
+    return {
+        model,
+        async generateJson({ prompt, responseSchema, signal }) {
+            const response = await ai.models.generateContent({
+                model,
+                contents: prompt,
+                config: { responseMimeType: "application/json", responseSchema, abortSignal: signal },
+            });
+            return { text: response.text.trim(), usage: tokenUsage(response) };
+        },
+    };
+}
+
+export function createGeminiImageProvider(ai: GoogleGenAI, model: string): ImageProvider {
+    return {
+        model,
+        async generateImage({ prompt, images, signal }) {
+            const response = await ai.models.generateContent({
+                model,
+                contents: {
+                    parts: [
+                        { text: prompt },
+                        ...images.map(image => ({ inlineData: image })),
+                    ],
+                },
+                config: { responseModalities: [Modality.IMAGE, Modality.TEXT], abortSignal: signal },
+            });
+            const imagePart = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
+            const image = imagePart?.inlineData?.data
+                ? { data: imagePart.inlineData.data, mimeType: imagePart.inlineData.mimeType ?? 'image/png' }
+                : null;
+            return { image, usage: tokenUsage(response) };
+        },
+    };
+}
+
+function toVideoOperation(operation: GenerateVideosOperation): VideoOperation {
+    const message = (operation.error as Record<string, unknown> | undefined)?.message;
+    const error = operation.error ? (typeof message === 'string' && message ? message : 'Unknown video generation error.') : undefined;
+    if (error) {
+        console.error('Video generation operation failed:', operation.error);
+    }
+    return {
+        name: operation.name!,
+        done: !!operation.done,
+        error,
+        videoUris: operation.response?.generatedVideos
+            ?.map(generated => generated.video?.uri)
+            .filter((uri): uri is string => !!uri),
+    };
+}
+
+export function createVeoVideoProvider(ai: GoogleGenAI, model: string, apiKey: string): VideoProvider {
+    return {
+        model,
+        pollIntervalMs: VEO_POLLING_INTERVAL,
+        async startVideo({ prompt, image, options, signal }) {
+            const operation = await ai.models.generateVideos({
+                model,
+                prompt,
+                image: { imageBytes: image.data, mimeType: image.mimeType },
+                config: { ...options, abortSignal: signal },
+            });
+            return toVideoOperation(operation);
+        },
+        async getVideoOperation(name, signal) {
+            return toVideoOperation(await ai.operations.getVideosOperation({ operation: { name }, config: { abortSignal: signal } }));
+        },
+        async downloadVideo(uri, signal) {
+            const videoResponse = await fetch(`${uri}&key=${apiKey}`, { signal });
+            if (!videoResponse.ok) {
+                throw new HttpError(`Failed to download video: ${videoResponse.statusText}`, videoResponse.status);
+            }
+            return videoResponse.blob();
+        },
+    };
+}
@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GoogleGenAI } from "@google/genai";
+import { createElevenLabsSpeechProvider } from "./elevenlabs";
+import { createGeminiImageProvider, createGeminiTextProvider, createVeoVideoProvider } from "./gemini";
+import { createMockImageProvider, createMockSpeechProvider, createMockTextProvider, createMockVideoProvider } from "./mock";
+import { createProxyProviders } from "./proxy";
+import type { Providers } from "./types";
+
+export type * from "./types";
+
+export type ProviderConfig = {
+    // 'mock' swaps every provider for an offline, deterministic implementation; 'proxy' sends every call
+    // through the local proxy server, which holds the API keys.
+    mode: 'live' | 'mock' | 'proxy';
+    textModel: string;
+    imageModel: string;
+    videoModel: string;
+    speechModel: string;
+    // Voice used when a campaign hasn't picked one.
+    voiceId: string;
+};
+
+export const PROVIDER_CONFIG: ProviderConfig = {
+    mode: process.env.PROVIDER_MODE === 'mock' || process.env.PROVIDER_MODE === 'proxy' ? process.env.PROVIDER_MODE : 'live',
+    textModel: 'gemini-2.5-flash',
+    imageModel: 'gemini-2.5-flash-image-preview',
+    videoModel: 'veo-2.0-generate-001',
+    speechModel: 'eleven_multilingual_v2',
+    voiceId: '21m00Tcm4TlvDq8ikWAM', // Default voice: Rachel
+};
+
+export function createProviders(
+    config: ProviderConfig,
+    credentials: { geminiApiKey?: string; getElevenLabsApiKey: () => string | null },
+): Providers {
+    if (config.mode === 'mock') {
+        return {
+            text: createMockTextProvider(),
+            image: createMockImageProvider(),
+            video: createMockVideoProvider(),
+            speech: createMockSpeechProvider(),
+        };
+    }
+    if (config.mode === 'proxy') {
+        return createProxyProviders(config);
+    }
+
+    const ai = new GoogleGenAI({ apiKey: credentials.geminiApiKey! });
+    return {
+        text: createGeminiTextProvider(ai, config.textModel),
+        image: createGeminiImageProvider(ai, config.imageModel),
+        video: createVeoVideoProvider(ai, config.videoModel, credentials.geminiApiKey!),
+        speech: createElevenLabsSpeechProvider(config.speechModel, credentials.getElevenLabsApiKey),
+    };
+}
@@ -0,0 +1,304 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Stand-ins for every provider so the whole pipeline runs with no network or API keys. Text, images and
+// voiceovers depend only on the request, so the same storyboard always produces the same ones. Videos show
+// the same frames for the same request, but they're recorded in real time, so the files differ from run to run.
+
+import { Schema, Type } from "@google/genai";
+import { throwIfCancelled } from "../jobQueue";
+import type { WordTiming } from "../types";
+import type { ImageProvider, InlineImage, SpeechProvider, TextProvider, VideoOperation, VideoOptions, VideoProvider, Voice } from "./types";
+
+const MOCK_VIDEO_DURATION_MS = 4000;
+const MOCK_VIDEO_FPS = 30;
+const MOCK_SAMPLE_RATE = 22050;
+const MOCK_VOICES: Voice[] = [
+    { id: '21m00Tcm4TlvDq8ikWAM', name: 'Mock Rachel', description: 'mock, low pitch' },
+    { id: 'mock-voice-mid', name: 'Mock Sam', description: 'mock, mid pitch' },
+    { id: 'mock-voice-high', name: 'Mock Ava', description: 'mock, high pitch' },
+];
+
+function hashString(text: string): number {
+    // FNV-1a
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+function fakeFromSchema(schema: Schema, name: string, index: number): unknown {
+    switch (schema.type) {
+        case Type.OBJECT:
+            return Object.fromEntries(
+                Object.entries(schema.properties ?? {}).map(([key, property]) => [key, fakeFromSchema(property, key, index)])
+            );
+        case Type.ARRAY: {
+            const count = Number(schema.minItems) || 3;
+            return Array.from({ length: count }, (_, i) => fakeFromSchema(schema.items ?? { type: Type.STRING }, name, i));
+        }
+        case Type.INTEGER:
+        case Type.NUMBER:
+            return index + 1;
+        case Type.BOOLEAN:
+            return false;
+        default:
+            if (schema.enum?.length) return schema.enum[index % schema.enum.length];
+            if (/hashtag/i.test(name)) return `#mock${index + 1}`;
+            return `Mock ${name.replace(/_/g, ' ')} ${index + 1}`;
+    }
+}
+
+export function createMockTextProvider(): TextProvider {
+    return {
+        model: 'mock-text',
+        async generateJson({ prompt, responseSchema, signal }) {
+            throwIfCancelled(signal);
+            const text = JSON.stringify(fakeFromSchema(responseSchema ?? { type: Type.OBJECT }, 'root', 0));
+            // Roughly four characters per token, so the usage ledger has something to show offline.
+            return { text, usage: { inputTokens: Math.ceil(prompt.length / 4), outputTokens: Math.ceil(text.length / 4) } };
+        },
+    };
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error('Failed to load image.'));
+        img.src = src;
+    });
+}
+
+function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (ctx.measureText(candidate).width > maxWidth && line) {
+            lines.push(line);
+            line = word;
+        } else {
+            line = candidate;
+        }
+    }
+    if (line) lines.push(line);
+    return lines;
+}
+
+export function createMockImageProvider(): ImageProvider {
+    return {
+        model: 'mock-image',
+        async generateImage({ prompt, images, signal }) {
+            throwIfCancelled(signal);
+            const size = 1024;
+            const hue = hashString(prompt) % 360;
+            const canvas = document.createElement('canvas');
+            canvas.width = size;
+            canvas.height = size;
+            const ctx = canvas.getContext('2d')!;
+
+            const gradient = ctx.createLinearGradient(0, 0, size, size);
+            gradient.addColorStop(0, `hsl(${hue}, 60%, 35%)`);
+            gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 60%, 15%)`);
+            ctx.fillStyle = gradient;
+            ctx.fillRect(0, 0, size, size);
+
+            ctx.strokeStyle = 'rgba(255, 255, 255, 0.08)';
+            ctx.lineWidth = 2;
+            for (let x = 0; x <= size; x += 64) {
+                ctx.beginPath(); ctx.moveTo(x, 0); ctx.lineTo(x, size); ctx.stroke();
+                ctx.beginPath(); ctx.moveTo(0, x); ctx.lineTo(size, x); ctx.stroke();
+            }
+
+            if (images[0]) {
+                const logo = await loadImage(`data:${images[0].mimeType};base64,${images[0].data}`);
+                const scale = Math.min(256 / logo.width, 256 / logo.height);
+                ctx.drawImage(logo, (size - logo.width * scale) / 2, size * 0.2, logo.width * scale, logo.height * scale);
+            }
+
+            ctx.fillStyle = 'white';
+            ctx.textAlign = 'center';
+            ctx.textBaseline = 'top';
+            ctx.font = 'bold 48px sans-serif';
+            ctx.fillText('MOCK IMAGE', size / 2, size * 0.55);
+            ctx.font = '24px sans-serif';
+            wrapText(ctx, prompt, size * 0.8).slice(0, 8).forEach((line, i) => {
+                ctx.fillText(line, size / 2, size * 0.63 + i * 32);
+            });
+
+            return {
+                image: { data: canvas.toDataURL('image/png').split(',')[1], mimeType: 'image/png' },
+                usage: { inputTokens: Math.ceil(prompt.length / 4) + 258 * images.length, outputTokens: 1290 },
+            };
+        },
+    };
+}
+
+// Renders a short test-pattern clip in the requested aspect ratio: the source image with a slow zoom, colour
+// bars and a frame counter. Clips are always a few seconds long, whatever the requested duration, because
+// they're recorded in real time.
+async function renderTestPatternVideo(prompt: string, image: InlineImage, aspectRatio: VideoOptions['aspectRatio'], take: number): Promise<Blob> {
+    const source = await loadImage(`data:${image.mimeType};base64,${image.data}`);
+    const [ratioWidth, ratioHeight] = aspectRatio.split(':').map(Number);
+    const width = Math.round(720 * Math.min(1, ratioWidth / ratioHeight) / 2) * 2;
+    const height = Math.round(720 * Math.min(1, ratioHeight / ratioWidth) / 2) * 2;
+    const cover = Math.max(width / source.width, height / source.height);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+
+    const stream = canvas.captureStream(MOCK_VIDEO_FPS);
+    const recorder = new MediaRecorder(stream, { mimeType: 'video/webm' });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = event => { if (event.data.size > 0) chunks.push(event.data); };
+    const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+    const barColors = ['#c0c0c0', '#c0c000', '#00c0c0', '#00c000', '#c000c0', '#c00000', '#0000c0'];
+    const totalFrames = (MOCK_VIDEO_DURATION_MS / 1000) * MOCK_VIDEO_FPS;
+    const drawFrame = (frame: number) => {
+        const progress = frame / totalFrames;
+        const drawWidth = source.width * cover * (1 + 0.1 * progress);
+        const drawHeight = source.height * cover * (1 + 0.1 * progress);
+        ctx.fillStyle = 'black';
+        ctx.fillRect(0, 0, width, height);
+        ctx.drawImage(source, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+
+        const barHeight = height * 0.06;
+        barColors.forEach((color, i) => {
+            ctx.fillStyle = color;
+            ctx.fillRect((i * width) / barColors.length, height - barHeight, width / barColors.length + 1, barHeight);
+        });
+        ctx.fillStyle = 'white';
+        ctx.fillRect(progress * width - 2, height - barHeight, 4, barHeight);
+
+        ctx.font = `bold ${Math.round(height * 0.035)}px monospace`;
+        ctx.textAlign = 'left';
+        ctx.textBaseline = 'top';
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+        ctx.fillRect(8, 8, width * 0.5, height * 0.05);
+        ctx.fillStyle = 'white';
+        ctx.fillText(`MOCK ${String(frame).padStart(3, '0')}/${totalFrames} #${hashString(prompt).toString(16)} T${take}`, 14, 12);
+    };
+
+    drawFrame(0);
+    recorder.start();
+    const start = performance.now();
+    await new Promise<void>(resolve => {
+        const timer = setInterval(() => {
+            const frame = Math.min(totalFrames, Math.round(((performance.now() - start) / 1000) * MOCK_VIDEO_FPS));
+            drawFrame(frame);
+            if (frame >= totalFrames) {
+                clearInterval(timer);
+                resolve();
+            }
+        }, 1000 / MOCK_VIDEO_FPS);
+    });
+    recorder.stop();
+    await stopped;
+    return new Blob(chunks, { type: 'video/webm' });
+}
+
+export function createMockVideoProvider(): VideoProvider {
+    // Jobs only live in memory, so a mock job started before a reload can't be resumed.
+    const jobs = new Map<string, { blobs?: Blob[]; error?: string }>();
+    let jobCount = 0;
+
+    const operationFor = (name: string): VideoOperation => {
+        const job = jobs.get(name);
+        if (!job) return { name, done: true, error: 'Mock video job not found (mock jobs do not survive a reload).' };
+        if (job.error) return { name, done: true, error: job.error };
+        if (job.blobs) return { name, done: true, videoUris: job.blobs.map((_, i) => `mock-video:${name}#${i}`) };
+        return { name, done: false };
+    };
+
+    return {
+        model: 'mock-video',
+        pollIntervalMs: 500,
+        async startVideo({ prompt, image, options, signal }) {
+            throwIfCancelled(signal);
+            const name = `mock-operations/${++jobCount}-${hashString(prompt).toString(16)}`;
+            const job: { blobs?: Blob[]; error?: string } = {};
+            jobs.set(name, job);
+            Promise.all(Array.from({ length: options.numberOfVideos }, (_, take) => renderTestPatternVideo(prompt, image, options.aspectRatio, take + 1)))
+                .then(blobs => { job.blobs = blobs; })
+                .catch(error => { job.error = error instanceof Error ? error.message : String(error); });
+            return operationFor(name);
+        },
+        async getVideoOperation(name) {
+            return operationFor(name);
+        },
+        async downloadVideo(uri) {
+            const [name, take] = uri.replace(/^mock-video:/, '').split('#');
+            const blob = jobs.get(name)?.blobs?.[Number(take)];
+            if (!blob) throw new Error(`Mock video ${uri} is not available.`);
+            return blob;
+        },
+    };
+}
+
+function encodeWav(samples: Float32Array, sampleRate: number): Blob {
+    const buffer = new ArrayBuffer(44 + samples.length * 2);
+    const view = new DataView(buffer);
+    const writeString = (offset: number, text: string) => {
+        for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+    };
+    writeString(0, 'RIFF');
+    view.setUint32(4, 36 + samples.length * 2, true);
+    writeString(8, 'WAVE');
+    writeString(12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true); // PCM
+    view.setUint16(22, 1, true); // mono
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * 2, true);
+    view.setUint16(32, 2, true);
+    view.setUint16(34, 16, true);
+    writeString(36, 'data');
+    view.setUint32(40, samples.length * 2, true);
+    samples.forEach((sample, i) => {
+        view.setInt16(44 + i * 2, Math.max(-1, Math.min(1, sample)) * 0x7fff, true);
+    });
+    return new Blob([buffer], { type: 'audio/wav' });
+}
+
+export function createMockSpeechProvider(): SpeechProvider {
+    return {
+        model: 'mock-speech',
+        async synthesize({ text, voice, signal }) {
+            throwIfCancelled(signal);
+            // One short tone per word, roughly at speaking pace, so timing-dependent features behave realistically.
+            const words = text.split(/\s+/).filter(Boolean);
+            const wordSeconds = 0.32;
+            const gapSeconds = 0.08;
+            const padSeconds = 0.2;
+            const totalSeconds = padSeconds * 2 + words.length * (wordSeconds + gapSeconds);
+            const samples = new Float32Array(Math.ceil(totalSeconds * MOCK_SAMPLE_RATE));
+            // Each mock voice gets its own pitch band; stability narrows the per-word pitch wobble.
+            const voiceIndex = Math.max(0, MOCK_VOICES.findIndex(v => v.id === voice.voiceId));
+            const timings: WordTiming[] = [];
+            const baseFrequency = 160 + voiceIndex * 80 + (hashString(text) % 40);
+            const wobble = (1 - voice.stability) / 10;
+
+            words.forEach((word, w) => {
+                const start = Math.floor((padSeconds + w * (wordSeconds + gapSeconds)) * MOCK_SAMPLE_RATE);
+                const length = Math.floor(wordSeconds * MOCK_SAMPLE_RATE);
+                const frequency = baseFrequency * (1 + wobble * ((hashString(word) % 5) - 2));
+                timings.push({ word, start: start / MOCK_SAMPLE_RATE, end: (start + length) / MOCK_SAMPLE_RATE });
+                for (let i = 0; i < length; i++) {
+                    const envelope = Math.sin((Math.PI * i) / length);
+                    samples[start + i] = 0.3 * envelope * Math.sin((2 * Math.PI * frequency * i) / MOCK_SAMPLE_RATE);
+                }
+            });
+            return { audio: encodeWav(samples, MOCK_SAMPLE_RATE), words: timings };
+        },
+        async listVoices() {
+            return MOCK_VOICES;
+        },
+    };
+}
@@ -0,0 +1,108 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Providers that call the local proxy server (`server/index.ts`) instead of Gemini, Veo and ElevenLabs
+// directly, so no API key ever reaches the browser.
+
+import { HttpError } from "../jobQueue";
+import type { WordTiming } from "../types";
+import type { ProviderConfig } from "./index";
+import type { ImageResult, Providers, TextResult, VideoOperation, Voice } from "./types";
+
+// Relative, so it works behind the Vite dev proxy and when the server serves the built app itself.
+export const PROXY_API_PATH = '/api';
+// Sent with every request. Other sites can't add a custom header without a CORS preflight, which the
+// server refuses, so it marks requests that really come from the app.
+export const PROXY_CLIENT_HEADER = 'x-automace-proxy';
+const CLIENT_HEADERS = { [PROXY_CLIENT_HEADER]: '1' };
+
+async function checkResponse(response: Response): Promise<Response> {
+    if (!response.ok) {
+        const body = await response.json().catch(() => null) as { error?: string } | null;
+        throw new HttpError(`Proxy server error: ${body?.error ?? response.statusText}`, response.status);
+    }
+    return response;
+}
+
+async function postJson<T>(path: string, body: unknown, signal?: AbortSignal): Promise<T> {
+    const response = await fetch(`${PROXY_API_PATH}${path}`, {
+        method: 'POST',
+        headers: { ...CLIENT_HEADERS, 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal,
+    });
+    return (await checkResponse(response)).json();
+}
+
+async function getJson<T>(path: string, signal?: AbortSignal): Promise<T> {
+    return (await checkResponse(await fetch(`${PROXY_API_PATH}${path}`, { headers: CLIENT_HEADERS, signal }))).json();
+}
+
+/**
+ * Watches a video operation over one streamed request: the server polls Veo and writes a line of JSON
+ * per status until the operation is done. If the stream drops first, the last status seen is returned
+ * and the caller simply asks again.
+ */
+async function watchVideoOperation(name: string, signal?: AbortSignal): Promise<VideoOperation> {
+    const response = await checkResponse(await fetch(`${PROXY_API_PATH}/video/operations/${encodeURIComponent(name)}/watch`, { headers: CLIENT_HEADERS, signal }));
+    const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+    let operation: VideoOperation = { name, done: false };
+    let buffered = '';
+    for (;;) {
+        const { value, done } = await reader.read();
+        if (done) return operation;
+        buffered += value;
+        const lines = buffered.split('\n');
+        buffered = lines.pop()!;
+        for (const line of lines) {
+            if (line.trim()) operation = JSON.parse(line);
+        }
+        if (operation.done) {
+            reader.cancel();
+            return operation;
+        }
+    }
+}
+
+export function createProxyProviders(config: ProviderConfig): Providers {
+    return {
+        text: {
+            model: config.textModel,
+            generateJson({ prompt, responseSchema, signal }) {
+                return postJson<TextResult>('/text', { prompt, responseSchema }, signal);
+            },
+        },
+        image: {
+            model: config.imageModel,
+            generateImage({ prompt, images, signal }) {
+                return postJson<ImageResult>('/image', { prompt, images }, signal);
+            },
+        },
+        video: {
+            model: config.videoModel,
+            // The watch request only returns once the operation is done, so there's nothing to wait for in between.
+            pollIntervalMs: 0,
+            startVideo({ prompt, image, options, signal }) {
+                return postJson<VideoOperation>('/video', { prompt, image, options }, signal);
+            },
+            getVideoOperation: watchVideoOperation,
+            async downloadVideo(uri, signal) {
+                const response = await fetch(`${PROXY_API_PATH}/video/download?uri=${encodeURIComponent(uri)}`, { headers: CLIENT_HEADERS, signal });
+                return (await checkResponse(response)).blob();
+            },
+        },
+        speech: {
+            model: config.speechModel,
+            async synthesize({ text, voice, signal }) {
+                const result = await postJson<{ audioBase64: string; mimeType: string; words: WordTiming[] | null }>('/speech', { text, voice }, signal);
+                const bytes = Uint8Array.from(atob(result.audioBase64), c => c.charCodeAt(0));
+                return { audio: new Blob([bytes], { type: result.mimeType }), words: result.words };
+            },
+            listVoices(signal) {
+                return getJson<Voice[]>('/speech/voices', signal);
+            },
+        },
+    };
+}
@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Schema } from "@google/genai";
+import type { VoiceSettings, WordTiming } from "../types";
+
+export type InlineImage = {
+    // Base64-encoded bytes, without a data: URL prefix.
+    data: string;
+    mimeType: string;
+};
+
+export type TextRequest = {
+    prompt: string;
+    responseSchema?: Schema;
+    signal?: AbortSignal;
+};
+
+// Tokens a Gemini request was billed for. Thinking tokens count as output.
+export type TokenUsage = {
+    inputTokens: number;
+    outputTokens: number;
+};
+
+export type TextResult = {
+    // The raw JSON text produced by the model.
+    text: string;
+    // Null when the provider doesn't report usage.
+    usage: TokenUsage | null;
+};
+
+export type ImageRequest = {
+    prompt: string;
+    // Extra images sent alongside the prompt (e.g. the brand logo).
+    images: InlineImage[];
+    signal?: AbortSignal;
+};
+
+export type ImageResult = {
+    // Null when the model returned no image (usually because the prompt was blocked).
+    image: InlineImage | null;
+    usage: TokenUsage | null;
+};
+
+// Veo's own option names and values, ready to send.
+export type VideoOptions = {
+    aspectRatio: '16:9' | '9:16';
+    durationSeconds: number;
+    negativePrompt?: string;
+    personGeneration: string;
+    seed?: number;
+    numberOfVideos: number;
+};
+
+export type VideoRequest = {
+    prompt: string;
+    image: InlineImage;
+    options: VideoOptions;
+    signal?: AbortSignal;
+};
+
+// A long-running video job. `name` is stable, so a job can be polled again after a reload.
+export type VideoOperation = {
+    name: string;
+    done: boolean;
+    error?: string;
+    videoUris?: string[];
+};
+
+export type SpeechRequest = {
+    text: string;
+    voice: VoiceSettings;
+    signal?: AbortSignal;
+};
+
+export type SpeechResult = {
+    audio: Blob;
+    // Null when the provider can't report word timings.
+    words: WordTiming[] | null;
+};
+
+export type Voice = {
+    id: string;
+    name: string;
+    // Short human-readable hint, e.g. "female, american, premade".
+    description: string;
+};
+
+export interface TextProvider {
+    readonly model: string;
+    generateJson(request: TextRequest): Promise<TextResult>;
+}
+
+export interface ImageProvider {
+    readonly model: string;
+    generateImage(request: ImageRequest): Promise<ImageResult>;
+}
+
+export interface VideoProvider {
+    readonly model: string;
+    // How long to wait between `getVideoOperation` polls.
+    readonly pollIntervalMs: number;
+    startVideo(request: VideoRequest): Promise<VideoOperation>;
+    getVideoOperation(name: string, signal?: AbortSignal): Promise<VideoOperation>;
+    downloadVideo(uri: string, signal?: AbortSignal): Promise<Blob>;
+}
+
+export interface SpeechProvider {
+    readonly model: string;
+    synthesize(request: SpeechRequest): Promise<SpeechResult>;
+    listVoices(signal?: AbortSignal): Promise<Voice[]>;
+}
+
+export type Providers = {
+    text: TextProvider;
+    image: ImageProvider;
+    video: VideoProvider;
+    speech: SpeechProvider;
+};
@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { InlineImage } from "./providers";
+import type { ReferenceImage } from "./types";
+
+// Beyond a few photos the image model starts mixing them up rather than following them more closely.
+export const MAX_SCENE_REFERENCES = 3;
+// Longest side, in pixels. Phone photos are scaled down so prompts and saved campaigns stay small.
+const REFERENCE_MAX_SIZE = 1536;
+const REFERENCE_JPEG_QUALITY = 0.9;
+
+export type SceneImageRequest = {
+    prompt: string;
+    images: InlineImage[];
+};
+
+/**
+ * Reads an uploaded photo as a JPEG no larger than the model needs. Transparent areas become white,
+ * which is how product cut-outs are usually shown.
+ */
+export async function readReferenceImage(file: File): Promise<ReferenceImage> {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, REFERENCE_MAX_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = 'white';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+
+    const dataUrl = canvas.toDataURL('image/jpeg', REFERENCE_JPEG_QUALITY);
+    return {
+        id: crypto.randomUUID(),
+        name: file.name.replace(/\.[^.]+$/, ''),
+        base64: dataUrl.split(',')[1],
+        mimeType: 'image/jpeg',
+    };
+}
+
+export function referenceImageUrl(reference: ReferenceImage): string {
+    return `data:${reference.mimeType};base64,${reference.base64}`;
+}
+
+function imageNumbers(first: number, count: number): string {
+    return count === 1 ? `Image ${first} is` : `Images ${first}-${first + count - 1} are`;
+}
+
+/**
+ * The prompt and image parts for a scene's image: the logo first, then the scene's reference photos,
+ * then the previous scene's image when the scene should match it. The prompt refers to each by number.
+ */
+export function sceneImageRequest(
+    visualPrompt: string,
+    logo: InlineImage,
+    references: ReferenceImage[],
+    previousScene: InlineImage | null,
+): SceneImageRequest {
+    const lines = [
+        `Generate a photorealistic image based on this description: "${visualPrompt}".`,
+        'Image 1 is a logo. Place this logo naturally and realistically onto the main product described in the scene.',
+    ];
+    if (references.length) {
+        lines.push(`${imageNumbers(2, references.length)} reference photos of the real product and subjects (${references.map(r => `"${r.name}"`).join(', ')}). `
+            + 'Show them exactly as they look in the photos: the same shape, colors, materials, packaging and labels. Use only the subjects, not the photos\' backgrounds or framing.');
+    }
+    if (previousScene) {
+        lines.push(`Image ${references.length + 2} is the previous scene of the same ad. Keep the same people, product, wardrobe and color grading so the two scenes look continuous, but follow this scene's description for the shot itself.`);
+    }
+    return {
+        prompt: lines.join('\n'),
+        images: [
+            logo,
+            ...references.map(({ base64, mimeType }) => ({ data: base64, mimeType })),
+            ...(previousScene ? [previousScene] : []),
+        ],
+    };
+}
@@ -0,0 +1,344 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Optional local backend for `PROVIDER_MODE=proxy`. It holds the Gemini and ElevenLabs keys, makes every
+// provider call on the browser's behalf and serves the built app, so nothing secret ships in the bundle.
+//
+//   npm run build && npm run server
+
+import { createReadStream, existsSync, statSync } from "node:fs";
+import { IncomingMessage, ServerResponse, createServer } from "node:http";
+import path from "node:path";
+import { Readable } from "node:stream";
+import type { ReadableStream as NodeReadableStream } from "node:stream/web";
+import { GoogleGenAI, Schema } from "@google/genai";
+import { CancelledError, HttpError, sleep, statusOf, withRetry } from "../jobQueue";
+import { PROVIDER_CONFIG } from "../providers";
+import { createElevenLabsSpeechProvider } from "../providers/elevenlabs";
+import { createGeminiImageProvider, createGeminiTextProvider, createVeoVideoProvider } from "../providers/gemini";
+import { PROXY_CLIENT_HEADER } from "../providers/proxy";
+import type {
+    ImageProvider, ImageRequest, InlineImage, SpeechProvider, SpeechRequest, TextProvider, TextRequest, VideoOptions,
+    VideoProvider, VideoRequest,
+} from "../providers";
+import type { VoiceSettings } from "../types";
+
+const ROOT_DIR = path.resolve(import.meta.dirname, '..');
+const DIST_DIR = path.join(ROOT_DIR, 'dist');
+const ENV_FILE = path.join(ROOT_DIR, '.env.local');
+// Scene images travel inline as base64, so requests can be a few megabytes.
+const MAX_BODY_BYTES = 32 * 1024 * 1024;
+// Veo results are only ever fetched from here; anything else would make the server an open proxy.
+const VIDEO_DOWNLOAD_HOST = 'generativelanguage.googleapis.com';
+const CONTENT_TYPES: Record<string, string> = {
+    '.html': 'text/html; charset=utf-8',
+    '.js': 'text/javascript; charset=utf-8',
+    '.css': 'text/css; charset=utf-8',
+    '.json': 'application/json',
+    '.svg': 'image/svg+xml',
+    '.png': 'image/png',
+    '.ico': 'image/x-icon',
+};
+
+if (existsSync(ENV_FILE)) process.loadEnvFile(ENV_FILE);
+const PORT = Number(process.env.PROXY_PORT) || 8787;
+// Localhost only by default; set PROXY_HOST=0.0.0.0 to share the server with a team.
+const HOST = process.env.PROXY_HOST || '127.0.0.1';
+// Host names the app may be opened on; any other Host header is refused, so a site that points its own
+// domain at this machine (DNS rebinding) can't reach the API. A shared server adds its names here.
+const ALLOWED_HOSTS = new Set([
+    'localhost', '127.0.0.1', '[::1]',
+    ...(HOST === '0.0.0.0' ? [] : [HOST]),
+    ...(process.env.PROXY_ALLOWED_HOSTS ?? '').split(',').map(host => host.trim()).filter(Boolean),
+]);
+const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
+const ELEVEN_LABS_API_KEY = process.env.ELEVEN_LABS_API_KEY;
+
+const ai = GEMINI_API_KEY ? new GoogleGenAI({ apiKey: GEMINI_API_KEY }) : null;
+const providers = ai && {
+    text: createGeminiTextProvider(ai, PROVIDER_CONFIG.textModel),
+    image: createGeminiImageProvider(ai, PROVIDER_CONFIG.imageModel),
+    video: createVeoVideoProvider(ai, PROVIDER_CONFIG.videoModel, GEMINI_API_KEY!),
+};
+const speech = createElevenLabsSpeechProvider(PROVIDER_CONFIG.speechModel, () => ELEVEN_LABS_API_KEY ?? null);
+
+function gemini(): { text: TextProvider; image: ImageProvider; video: VideoProvider } {
+    if (!providers) throw new HttpError('GEMINI_API_KEY is not set on the proxy server.', 401);
+    return providers;
+}
+
+function elevenLabs(): SpeechProvider {
+    if (!ELEVEN_LABS_API_KEY) throw new HttpError('ELEVEN_LABS_API_KEY is not set on the proxy server.', 401);
+    return speech;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+}
+
+// Upstream statuses are passed through so the browser's retry logic treats them the same as direct calls.
+function sendError(res: ServerResponse, error: unknown) {
+    if (res.headersSent) {
+        res.end();
+        return;
+    }
+    sendJson(res, statusOf(error) ?? 500, { error: error instanceof Error ? error.message : String(error) });
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) throw new HttpError('The request body is too large.', 413);
+        chunks.push(chunk);
+    }
+    try {
+        return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+        throw new HttpError('The request body is not valid JSON.', 400);
+    }
+}
+
+type JsonObject = Record<string, unknown>;
+
+// Null for anything that doesn't parse, e.g. the "null" origin of sandboxed pages.
+function parseUrl(text: string, base?: string): URL | null {
+    try {
+        return new URL(text, base);
+    } catch {
+        return null;
+    }
+}
+
+function badRequest(message: string): HttpError {
+    return new HttpError(message, 400);
+}
+
+function asObject(value: unknown, name: string): JsonObject {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) throw badRequest(`"${name}" must be an object.`);
+    return value as JsonObject;
+}
+
+function asString(object: JsonObject, field: string): string {
+    const value = object[field];
+    if (typeof value !== 'string') throw badRequest(`"${field}" must be a string.`);
+    return value;
+}
+
+function asNumber(object: JsonObject, field: string): number {
+    const value = object[field];
+    if (typeof value !== 'number' || !Number.isFinite(value)) throw badRequest(`"${field}" must be a number.`);
+    return value;
+}
+
+function asInlineImage(value: unknown, name: string): InlineImage {
+    const image = asObject(value, name);
+    return { data: asString(image, 'data'), mimeType: asString(image, 'mimeType') };
+}
+
+// Request bodies are checked field by field, so a malformed one is a 400 rather than a crash in a provider.
+function parseTextRequest(body: unknown): TextRequest {
+    const request = asObject(body, 'body');
+    return {
+        prompt: asString(request, 'prompt'),
+        responseSchema: request.responseSchema === undefined ? undefined : asObject(request.responseSchema, 'responseSchema') as Schema,
+    };
+}
+
+function parseImageRequest(body: unknown): ImageRequest {
+    const request = asObject(body, 'body');
+    if (!Array.isArray(request.images)) throw badRequest('"images" must be an array.');
+    return {
+        prompt: asString(request, 'prompt'),
+        images: request.images.map((image, i) => asInlineImage(image, `images[${i}]`)),
+    };
+}
+
+function parseVideoOptions(value: unknown): VideoOptions {
+    const options = asObject(value, 'options');
+    const aspectRatio = asString(options, 'aspectRatio');
+    if (aspectRatio !== '16:9' && aspectRatio !== '9:16') throw badRequest('"aspectRatio" must be "16:9" or "9:16".');
+    return {
+        aspectRatio,
+        durationSeconds: asNumber(options, 'durationSeconds'),
+        negativePrompt: options.negativePrompt === undefined ? undefined : asString(options, 'negativePrompt'),
+        personGeneration: asString(options, 'personGeneration'),
+        seed: options.seed === undefined ? undefined : asNumber(options, 'seed'),
+        numberOfVideos: asNumber(options, 'numberOfVideos'),
+    };
+}
+
+function parseVideoRequest(body: unknown): VideoRequest {
+    const request = asObject(body, 'body');
+    return {
+        prompt: asString(request, 'prompt'),
+        image: asInlineImage(request.image, 'image'),
+        options: parseVideoOptions(request.options),
+    };
+}
+
+function parseSpeechRequest(body: unknown): SpeechRequest {
+    const request = asObject(body, 'body');
+    const voice = asObject(request.voice, 'voice');
+    const settings: VoiceSettings = {
+        voiceId: asString(voice, 'voiceId'),
+        stability: asNumber(voice, 'stability'),
+        similarityBoost: asNumber(voice, 'similarityBoost'),
+        style: asNumber(voice, 'style'),
+    };
+    return { text: asString(request, 'text'), voice: settings };
+}
+
+/**
+ * Only the app itself may use the API: every call spends the keys this server holds. The Host header must
+ * be a known name, the caller must be same-origin (by `Origin` and `Sec-Fetch-Site`, where the browser
+ * sends them) and must send the proxy client's header, which other sites can't add without a CORS
+ * preflight that this server never approves.
+ */
+function checkCaller(req: IncomingMessage) {
+    const host = req.headers.host ?? '';
+    const hostname = host.replace(/:\d+$/, '');
+    if (!ALLOWED_HOSTS.has(hostname)) {
+        throw new HttpError(`Requests for "${hostname}" are not accepted. Add it to PROXY_ALLOWED_HOSTS to allow it.`, 403);
+    }
+    const origin = req.headers.origin;
+    if (origin !== undefined && parseUrl(origin)?.host !== host) {
+        throw new HttpError('Cross-origin requests are not accepted.', 403);
+    }
+    const site = req.headers['sec-fetch-site'];
+    if (site !== undefined && site !== 'same-origin' && site !== 'none') {
+        throw new HttpError('Cross-site requests are not accepted.', 403);
+    }
+    if (req.headers[PROXY_CLIENT_HEADER] !== '1') {
+        throw new HttpError('Requests must come from the AutoMACE app.', 403);
+    }
+}
+
+// Aborts when the browser goes away, so abandoned requests stop calling the providers.
+function clientSignal(res: ServerResponse): AbortSignal {
+    const controller = new AbortController();
+    res.on('close', () => {
+        if (!res.writableEnded) controller.abort();
+    });
+    return controller.signal;
+}
+
+/**
+ * Streams a video operation's status as one JSON line per poll until it's done. The browser holds a
+ * single request open for the whole generation instead of polling through the proxy itself.
+ */
+async function watchVideoOperation(res: ServerResponse, name: string) {
+    const { video } = gemini();
+    const signal = clientSignal(res);
+    let operation = await withRetry(() => video.getVideoOperation(name, signal), signal);
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' });
+    res.write(`${JSON.stringify(operation)}\n`);
+    try {
+        while (!operation.done) {
+            await sleep(video.pollIntervalMs, signal);
+            operation = await withRetry(() => video.getVideoOperation(name, signal), signal);
+            res.write(`${JSON.stringify(operation)}\n`);
+        }
+    } catch (error) {
+        // The browser resumes from the last line it got, so a failed poll just ends the stream.
+        if (!(error instanceof CancelledError)) console.error(`Watching ${name} failed:`, error);
+    }
+    res.end();
+}
+
+// Streams the clip straight through; the key is added here, never in the browser.
+async function downloadVideo(res: ServerResponse, uri: string) {
+    gemini();
+    const url = parseUrl(uri);
+    if (!url || url.protocol !== 'https:' || url.hostname !== VIDEO_DOWNLOAD_HOST) {
+        throw new HttpError('Videos can only be downloaded from the Gemini API.', 400);
+    }
+    url.searchParams.set('key', GEMINI_API_KEY!);
+    const response = await fetch(url, { signal: clientSignal(res) });
+    if (!response.ok || !response.body) {
+        throw new HttpError(`Failed to download video: ${response.statusText}`, response.status);
+    }
+    res.writeHead(200, { 'Content-Type': response.headers.get('Content-Type') ?? 'video/mp4' });
+    Readable.fromWeb(response.body as NodeReadableStream).pipe(res);
+}
+
+async function handleApi(req: IncomingMessage, res: ServerResponse, url: URL) {
+    // Preflights are never approved, so browsers won't send cross-origin requests with the client header.
+    if (req.method === 'OPTIONS') {
+        sendJson(res, 403, { error: 'Cross-origin requests are not accepted.' });
+        return;
+    }
+    checkCaller(req);
+    const route = `${req.method} ${url.pathname}`;
+    const watch = /^\/api\/video\/operations\/(.+)\/watch$/.exec(url.pathname);
+
+    if (route === 'POST /api/text') {
+        const { prompt, responseSchema } = parseTextRequest(await readJson(req));
+        sendJson(res, 200, await gemini().text.generateJson({ prompt, responseSchema, signal: clientSignal(res) }));
+    } else if (route === 'POST /api/image') {
+        const { prompt, images } = parseImageRequest(await readJson(req));
+        sendJson(res, 200, await gemini().image.generateImage({ prompt, images, signal: clientSignal(res) }));
+    } else if (route === 'POST /api/video') {
+        const { prompt, image, options } = parseVideoRequest(await readJson(req));
+        sendJson(res, 200, await gemini().video.startVideo({ prompt, image, options, signal: clientSignal(res) }));
+    } else if (req.method === 'GET' && watch) {
+        await watchVideoOperation(res, decodeURIComponent(watch[1]));
+    } else if (route === 'GET /api/video/download') {
+        await downloadVideo(res, url.searchParams.get('uri') ?? '');
+    } else if (route === 'POST /api/speech') {
+        const { text, voice } = parseSpeechRequest(await readJson(req));
+        const result = await elevenLabs().synthesize({ text, voice, signal: clientSignal(res) });
+        sendJson(res, 200, {
+            audioBase64: Buffer.from(await result.audio.arrayBuffer()).toString('base64'),
+            mimeType: result.audio.type,
+            words: result.words,
+        });
+    } else if (route === 'GET /api/speech/voices') {
+        sendJson(res, 200, await elevenLabs().listVoices(clientSignal(res)));
+    } else {
+        sendJson(res, 404, { error: `No such endpoint: ${route}` });
+    }
+}
+
+// Serves the built app; unknown paths fall back to index.html.
+function serveStatic(res: ServerResponse, url: URL) {
+    const requested = path.normalize(path.join(DIST_DIR, decodeURIComponent(url.pathname)));
+    // A plain prefix check would also let through siblings such as `dist-old/`.
+    const relative = path.relative(DIST_DIR, requested);
+    const insideDist = !relative.startsWith('..') && !path.isAbsolute(relative);
+    const inDist = insideDist && existsSync(requested) && statSync(requested).isFile();
+    const file = inDist ? requested : path.join(DIST_DIR, 'index.html');
+    if (!existsSync(file)) {
+        res.writeHead(404, { 'Content-Type': 'text/plain' });
+        res.end('The app has not been built. Run "npm run build", or use "npm run dev" alongside this server.');
+        return;
+    }
+    res.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(file)] ?? 'application/octet-stream' });
+    createReadStream(file).pipe(res);
+}
+
+const server = createServer(async (req, res) => {
+    try {
+        // A fixed base keeps the Host header out of URL parsing; checkCaller vets it on its own.
+        const url = parseUrl(req.url ?? '/', 'http://localhost');
+        if (!url) throw new HttpError('The request URL is not valid.', 400);
+        if (url.pathname.startsWith('/api/')) {
+            await handleApi(req, res, url);
+        } else {
+            serveStatic(res, url);
+        }
+    } catch (error) {
+        if (!(error instanceof CancelledError)) console.error(`${req.method} ${req.url} failed:`, error);
+        sendError(res, error);
+    }
+});
+
+server.listen(PORT, HOST, () => {
+    console.log(`AutoMACE proxy listening on http://${HOST}:${PORT}`);
+    if (!GEMINI_API_KEY) console.warn('GEMINI_API_KEY is not set: text, image and video requests will fail.');
+    if (!ELEVEN_LABS_API_KEY) console.warn('ELEVEN_LABS_API_KEY is not set: voiceover requests will fail.');
+});
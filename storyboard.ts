@@ -0,0 +1,151 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Schema, Type } from "@google/genai";
+import type { FocalPoint, SceneTransition, TextAnimations, VideoSettings, VoiceSettings } from "./types";
+
+export const MAX_ON_SCREEN_TEXT_WORDS = 9;
+
+export type Scene = {
+    id: number;
+    voiceover: string;
+    on_screen_text: string;
+    visual_prompt: string;
+    // The scene's role in the template the storyboard was written from. Never produced by the model.
+    role?: string;
+    // Per-scene override of the campaign voice. Never produced by the model.
+    voice?: VoiceSettings;
+    // Per-scene override of the campaign's video settings. Never produced by the model.
+    video?: VideoSettings;
+    // Where to keep the crop centred when the visual is cut to a different aspect ratio.
+    focalPoint?: FocalPoint;
+    // Transition into the next scene; a hard cut when unset.
+    transition?: SceneTransition;
+    textAnimations?: TextAnimations;
+    // Ids of the campaign's reference photos sent with this scene's image prompt. Never produced by the model.
+    references?: string[];
+    // Also send the previous scene's image, so people and products stay consistent from scene to scene.
+    matchPreviousScene?: boolean;
+};
+
+export type Storyboard = {
+    scenes: Scene[];
+};
+
+export type StoryboardCheck = {
+    storyboard: Storyboard | null;
+    // Problems that were fixed in place (renumbered ids, trimmed text...). Logged, never shown as errors.
+    repairs: string[];
+    // Problems that can't be fixed without asking the model again.
+    errors: string[];
+};
+
+export class StoryboardValidationError extends Error {
+    constructor(public readonly errors: string[]) {
+        super(`The generated storyboard is invalid:\n- ${errors.join('\n- ')}`);
+        this.name = 'StoryboardValidationError';
+    }
+}
+
+export function storyboardResponseSchema(sceneCount: number): Schema {
+    return {
+        type: Type.OBJECT,
+        properties: {
+            storyboard: {
+                type: Type.OBJECT,
+                properties: {
+                    scenes: {
+                        type: Type.ARRAY,
+                        minItems: String(sceneCount),
+                        maxItems: String(sceneCount),
+                        items: {
+                            type: Type.OBJECT,
+                            properties: {
+                                id: { type: Type.INTEGER, description: '1-based scene index.' },
+                                voiceover: { type: Type.STRING, description: 'A short, punchy voiceover line.' },
+                                on_screen_text: {
+                                    type: Type.STRING,
+                                    description: `A few words of on-screen text, at most ${MAX_ON_SCREEN_TEXT_WORDS} words.`,
+                                },
+                                visual_prompt: {
+                                    type: Type.STRING,
+                                    description: 'A rich, descriptive prompt for an image generation model.',
+                                },
+                            },
+                            required: ['id', 'voiceover', 'on_screen_text', 'visual_prompt'],
+                            propertyOrdering: ['id', 'voiceover', 'on_screen_text', 'visual_prompt'],
+                        },
+                    },
+                },
+                required: ['scenes'],
+            },
+        },
+        required: ['storyboard'],
+    };
+}
+
+export function countWords(text: string): number {
+    return text.split(/\s+/).filter(Boolean).length;
+}
+
+function readString(scene: Record<string, unknown>, field: keyof Scene, label: string, errors: string[]): string {
+    const value = scene[field];
+    if (typeof value === 'string' && value.trim()) return value.trim();
+    if (typeof value === 'number') return String(value);
+    errors.push(`${label}: "${field}" is missing or empty.`);
+    return '';
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Checks a parsed model response against the storyboard shape, repairing what it safely can.
+ * Accepts either `{ storyboard: { scenes } }` or a bare `{ scenes }` object.
+ */
+export function checkStoryboard(raw: unknown, expectedSceneCount: number): StoryboardCheck {
+    const repairs: string[] = [];
+    const errors: string[] = [];
+
+    const root = isRecord(raw) ? raw : null;
+    const container = isRecord(root?.storyboard) ? root.storyboard : root;
+    if (!container || !Array.isArray(container.scenes)) {
+        return { storyboard: null, repairs, errors: ['The response has no "storyboard.scenes" array.'] };
+    }
+
+    let rawScenes: unknown[] = container.scenes;
+    if (rawScenes.length > expectedSceneCount) {
+        repairs.push(`Dropped ${rawScenes.length - expectedSceneCount} extra scene(s).`);
+        rawScenes = rawScenes.slice(0, expectedSceneCount);
+    } else if (rawScenes.length < expectedSceneCount) {
+        errors.push(`Expected ${expectedSceneCount} scenes but got ${rawScenes.length}.`);
+    }
+
+    const scenes = rawScenes.map((rawScene, index): Scene => {
+        const label = `Scene ${index + 1}`;
+        if (!rawScene || typeof rawScene !== 'object') {
+            errors.push(`${label}: is not an object.`);
+            return { id: index + 1, voiceover: '', on_screen_text: '', visual_prompt: '' };
+        }
+        const scene = rawScene as Record<string, unknown>;
+
+        if (Number(scene.id) !== index + 1) {
+            repairs.push(`${label}: renumbered id ${JSON.stringify(scene.id)} to ${index + 1}.`);
+        }
+
+        const voiceover = readString(scene, 'voiceover', label, errors);
+        const visualPrompt = readString(scene, 'visual_prompt', label, errors);
+        let onScreenText = readString(scene, 'on_screen_text', label, errors);
+        if (countWords(onScreenText) > MAX_ON_SCREEN_TEXT_WORDS) {
+            onScreenText = onScreenText.split(/\s+/).slice(0, MAX_ON_SCREEN_TEXT_WORDS).join(' ');
+            repairs.push(`${label}: trimmed "on_screen_text" to ${MAX_ON_SCREEN_TEXT_WORDS} words.`);
+        }
+
+        return { id: index + 1, voiceover, on_screen_text: onScreenText, visual_prompt: visualPrompt };
+    });
+
+    return { storyboard: { scenes }, repairs, errors };
+}
@@ -0,0 +1,224 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { parseBrandKit } from "./brandKit";
+import type { Storyboard } from "./storyboard";
+import type { AspectRatio, BrandKit, CampaignInputs, CampaignTemplate, TemplateScene, VideoFit } from "./types";
+
+// Same bounds as the "Number of Scenes" field, so a template always fits the form.
+export const MIN_TEMPLATE_SCENES = 2;
+export const MAX_TEMPLATE_SCENES = 5;
+
+// Identifies exported template files and lets later versions migrate older ones.
+const TEMPLATE_FILE_KIND = 'automace-template';
+const TEMPLATE_FILE_VERSION = 1;
+
+export const BUILT_IN_TEMPLATES: CampaignTemplate[] = [
+    {
+        id: 'builtin-hook-benefit-proof-cta',
+        name: 'Hook · Benefit · Proof · CTA',
+        inputs: {},
+        scenes: [
+            { role: 'Hook', voiceover: 'A bold question or claim that stops the scroll.', visual: 'An arresting close-up that creates curiosity.' },
+            { role: 'Benefit', voiceover: 'The single biggest benefit, in the customer\'s words.', visual: 'The product in use, delivering that benefit.' },
+            { role: 'Proof', voiceover: 'A number, review or result that backs the claim up.', visual: 'A happy customer or a visible result.' },
+            { role: 'CTA', voiceover: 'Tell the viewer exactly what to do next.', visual: 'A clean hero shot of the product.' },
+        ],
+        brandKit: null,
+        createdAt: 0,
+    },
+    {
+        id: 'builtin-problem-solution',
+        name: 'Problem · Solution · CTA',
+        inputs: {},
+        scenes: [
+            { role: 'Problem', voiceover: 'Name a frustrating problem the audience knows too well.', visual: 'Someone visibly struggling with that problem.' },
+            { role: 'Solution', voiceover: 'Introduce the product as the fix.', visual: 'The product solving the problem on screen.' },
+            { role: 'CTA', voiceover: 'Invite the viewer to try it.', visual: 'The relieved user with the product in frame.' },
+        ],
+        brandKit: null,
+        createdAt: 0,
+    },
+    {
+        id: 'builtin-product-launch',
+        name: 'Product Launch',
+        inputs: {},
+        scenes: [
+            { role: 'Tease', voiceover: 'Build anticipation without naming the product yet.', visual: 'Moody, partly hidden glimpses of the product.' },
+            { role: 'Reveal', voiceover: 'Announce the product by name.', visual: 'A dramatic full reveal of the product.' },
+            { role: 'Feature', voiceover: 'The standout feature and why it matters.', visual: 'A detailed shot of that feature in action.' },
+            { role: 'Proof', voiceover: 'Early praise or a striking spec.', visual: 'People reacting to or using the product.' },
+            { role: 'CTA', voiceover: 'Where and when to get it.', visual: 'The product with a launch-day feel.' },
+        ],
+        brandKit: null,
+        createdAt: 0,
+    },
+];
+
+export class TemplateImportError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TemplateImportError';
+    }
+}
+
+// Scenes of a finished campaign become the structure, with their roles kept and their text as the example.
+export function templateFromCampaign(name: string, inputs: CampaignInputs, storyboard: Storyboard, brandKit: BrandKit): CampaignTemplate {
+    const { productDesc, ...formInputs } = inputs;
+    return {
+        id: crypto.randomUUID(),
+        name,
+        inputs: { ...formInputs, scenesWanted: storyboard.scenes.length },
+        scenes: storyboard.scenes.map((scene, index) => ({
+            role: scene.role ?? `Scene ${index + 1}`,
+            voiceover: scene.voiceover,
+            visual: scene.visual_prompt,
+        })),
+        brandKit,
+        createdAt: Date.now(),
+    };
+}
+
+// The part of the storyboard prompt that lays out the scenes; empty when the template has no structure.
+export function templatePromptSection(scenes: TemplateScene[]): string {
+    if (!scenes.length) return '';
+    const lines = scenes.map((scene, index) =>
+        `- Scene ${index + 1} (${scene.role}): voiceover guidance: ${scene.voiceover} Visual guidance: ${scene.visual}`
+    );
+    return `Follow this scene structure, one scene per role and in this order. Use the guidance as direction for this product, never copy it word for word:\n${lines.join('\n')}`;
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+}
+
+// Templates are shared as JSON; the brand font, if any, travels inline as a data URL.
+export async function exportTemplate(template: CampaignTemplate): Promise<string> {
+    const { id, createdAt, brandKit, ...rest } = template;
+    const font = brandKit?.font ? { name: brandKit.font.name, data: await blobToDataUrl(brandKit.font.blob) } : null;
+    return JSON.stringify({
+        kind: TEMPLATE_FILE_KIND,
+        version: TEMPLATE_FILE_VERSION,
+        ...rest,
+        brandKit: brandKit && { ...brandKit, font },
+    }, null, 2);
+}
+
+function readText(value: unknown, field: string): string {
+    if (typeof value !== 'string') throw new TemplateImportError(`"${field}" must be text.`);
+    return value;
+}
+
+// Voice settings are 0-1 sliders; a missing value gets the slider's default.
+function readVoiceLevel(value: unknown, fallback: number, field: string): number {
+    if (value === undefined) return fallback;
+    if (typeof value !== 'number' || !Number.isFinite(value)) throw new TemplateImportError(`"${field}" must be a number.`);
+    return Math.min(1, Math.max(0, value));
+}
+
+function readInputs(raw: unknown): CampaignTemplate['inputs'] {
+    if (raw === undefined) return {};
+    if (!raw || typeof raw !== 'object') throw new TemplateImportError('"inputs" must be an object.');
+    const data = raw as Record<string, unknown>;
+    const inputs: CampaignTemplate['inputs'] = {};
+    if (data.targetAudience !== undefined) inputs.targetAudience = readText(data.targetAudience, 'inputs.targetAudience');
+    if (data.watermarkText !== undefined) inputs.watermarkText = readText(data.watermarkText, 'inputs.watermarkText');
+    if (data.language !== undefined) inputs.language = readText(data.language, 'inputs.language');
+    if (data.format !== undefined) {
+        if (!['9:16', '1:1', '4:5', '16:9'].includes(data.format as string)) {
+            throw new TemplateImportError(`"inputs.format" must be one of 9:16, 1:1, 4:5 or 16:9.`);
+        }
+        inputs.format = data.format as AspectRatio;
+    }
+    if (data.videoFit !== undefined) {
+        if (data.videoFit !== 'loop' && data.videoFit !== 'freeze') throw new TemplateImportError('"inputs.videoFit" must be "loop" or "freeze".');
+        inputs.videoFit = data.videoFit as VideoFit;
+    }
+    if (data.captions !== undefined) inputs.captions = !!data.captions;
+    if (data.scenesWanted !== undefined) {
+        const count = Number(data.scenesWanted);
+        if (!Number.isInteger(count) || count < MIN_TEMPLATE_SCENES || count > MAX_TEMPLATE_SCENES) {
+            throw new TemplateImportError(`"inputs.scenesWanted" must be a whole number from ${MIN_TEMPLATE_SCENES} to ${MAX_TEMPLATE_SCENES}.`);
+        }
+        inputs.scenesWanted = count;
+    }
+    if (data.voice && typeof data.voice === 'object') {
+        const voice = data.voice as Record<string, unknown>;
+        inputs.voice = {
+            voiceId: readText(voice.voiceId, 'inputs.voice.voiceId'),
+            stability: readVoiceLevel(voice.stability, 0.5, 'inputs.voice.stability'),
+            similarityBoost: readVoiceLevel(voice.similarityBoost, 0.75, 'inputs.voice.similarityBoost'),
+            style: readVoiceLevel(voice.style, 0, 'inputs.voice.style'),
+        };
+    }
+    return inputs;
+}
+
+function readScenes(raw: unknown): TemplateScene[] {
+    if (raw === undefined) return [];
+    if (!Array.isArray(raw)) throw new TemplateImportError('"scenes" must be a list.');
+    if (raw.length && (raw.length < MIN_TEMPLATE_SCENES || raw.length > MAX_TEMPLATE_SCENES)) {
+        throw new TemplateImportError(`A template needs between ${MIN_TEMPLATE_SCENES} and ${MAX_TEMPLATE_SCENES} scenes; this one has ${raw.length}.`);
+    }
+    return raw.map((scene, index) => {
+        if (!scene || typeof scene !== 'object') throw new TemplateImportError(`Scene ${index + 1} must be an object.`);
+        const { role, voiceover, visual } = scene as Record<string, unknown>;
+        return {
+            role: readText(role, `scenes[${index}].role`).trim() || `Scene ${index + 1}`,
+            voiceover: readText(voiceover ?? '', `scenes[${index}].voiceover`),
+            visual: readText(visual ?? '', `scenes[${index}].visual`),
+        };
+    });
+}
+
+async function readBrandKit(raw: unknown): Promise<BrandKit | null> {
+    if (!raw) return null;
+    if (typeof raw !== 'object') throw new TemplateImportError('"brandKit" must be an object.');
+    const kit = raw as Record<string, unknown>;
+    let brandFont: BrandKit['font'] = null;
+    if (kit.font) {
+        const { name, data } = kit.font as Record<string, unknown>;
+        if (typeof data !== 'string' || !data.startsWith('data:')) throw new TemplateImportError('The brand font is not embedded correctly.');
+        brandFont = { name: readText(name, 'brandKit.font.name'), blob: await (await fetch(data)).blob() };
+    }
+    // Kits from older or hand-written files get defaults for anything they leave out.
+    return parseBrandKit(kit, crypto.randomUUID(), brandFont, message => new TemplateImportError(message));
+}
+
+/**
+ * Reads an exported template file. Throws TemplateImportError with a message fit to show the user when
+ * the file isn't a template or is malformed.
+ */
+export async function importTemplate(text: string): Promise<CampaignTemplate> {
+    let data: Record<string, unknown>;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new TemplateImportError('The file is not valid JSON.');
+    }
+    if (!data || data.kind !== TEMPLATE_FILE_KIND) throw new TemplateImportError('The file is not an AutoMACE template.');
+    if (Number(data.version) > TEMPLATE_FILE_VERSION) {
+        throw new TemplateImportError('The template was made with a newer version of AutoMACE.');
+    }
+    const name = readText(data.name, 'name').trim();
+    if (!name) throw new TemplateImportError('The template has no name.');
+
+    const scenes = readScenes(data.scenes);
+    const inputs = readInputs(data.inputs);
+    if (scenes.length) inputs.scenesWanted = scenes.length;
+    return {
+        id: crypto.randomUUID(),
+        name,
+        inputs,
+        scenes,
+        brandKit: await readBrandKit(data.brandKit),
+        createdAt: Date.now(),
+    };
+}
@@ -0,0 +1,105 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { VideoFit } from "./types";
+
+// Breathing room after each voiceover line before the next scene starts.
+export const SCENE_TAIL_SECONDS = 0.3;
+// Scenes with very short (or empty) voiceovers still stay on screen long enough to read.
+export const MIN_SCENE_SECONDS = 1.5;
+// How long the logo end card is held after the last scene.
+export const END_CARD_SECONDS = 3;
+
+export type SceneDurations = {
+    voDuration: number;
+    // Length of the part of the clip that's used; 0 for still images.
+    videoDuration: number;
+    // Where that part starts in the clip, for clips trimmed by the user.
+    clipStart: number;
+};
+
+export type TimelineScene = SceneDurations & {
+    // Offset from the start of the ad, in seconds.
+    start: number;
+    duration: number;
+    // How the clip is stretched or cut to the scene's duration.
+    fit: 'trim' | VideoFit;
+};
+
+export type Timeline = {
+    scenes: TimelineScene[];
+    duration: number;
+};
+
+/**
+ * Lays scenes out back to back, each lasting as long as its voiceover. Clips longer than the scene
+ * are trimmed; shorter ones loop or hold their last frame depending on `fit`.
+ */
+export function buildTimeline(durations: SceneDurations[], fit: VideoFit): Timeline {
+    let start = 0;
+    const scenes = durations.map((scene): TimelineScene => {
+        const duration = Math.max(MIN_SCENE_SECONDS, scene.voDuration + SCENE_TAIL_SECONDS);
+        const timelineScene = {
+            ...scene,
+            start,
+            duration,
+            fit: scene.videoDuration >= duration ? 'trim' as const : fit,
+        };
+        start += duration;
+        return timelineScene;
+    });
+    return { scenes, duration: start };
+}
+
+export function sceneIndexAt(timeline: Timeline, time: number): number {
+    const index = timeline.scenes.findIndex(scene => time < scene.start + scene.duration);
+    return index === -1 ? timeline.scenes.length - 1 : index;
+}
+
+/**
+ * Maps a time within a scene to the time in its clip: trimmed clips play straight through, looped ones
+ * wrap around and frozen ones hold their last frame (`frameSeconds` before the used part's end).
+ */
+export function clipTimeAt(scene: TimelineScene, sceneTime: number, frameSeconds: number): number {
+    const lastFrame = Math.max(0, scene.videoDuration - frameSeconds);
+    if (scene.fit === 'loop' && scene.videoDuration > 0) {
+        return scene.clipStart + Math.min(lastFrame, sceneTime % scene.videoDuration);
+    }
+    return scene.clipStart + Math.min(lastFrame, sceneTime);
+}
+
+/**
+ * Resolves the duration of an audio or video URL. Recordings made with MediaRecorder report an
+ * infinite duration until the element has seeked to the end, so those are probed that way.
+ */
+export function measureMediaDuration(url: string, kind: 'audio' | 'video'): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const media = document.createElement(kind);
+        media.preload = 'metadata';
+        media.muted = true;
+        const finish = (duration: number) => {
+            media.onloadedmetadata = media.ondurationchange = media.onerror = null;
+            media.removeAttribute('src');
+            media.load();
+            resolve(duration);
+        };
+        media.onloadedmetadata = () => {
+            if (Number.isFinite(media.duration)) {
+                finish(media.duration);
+                return;
+            }
+            media.ondurationchange = () => {
+                if (Number.isFinite(media.duration)) finish(media.duration);
+            };
+            media.currentTime = Number.MAX_SAFE_INTEGER;
+        };
+        media.onerror = () => reject(new Error(`Could not read the ${kind} duration.`));
+        media.src = url;
+    });
+}
+
+export function formatSeconds(seconds: number): string {
+    return `${seconds.toFixed(1)}s`;
+}
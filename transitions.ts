@@ -0,0 +1,155 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Timeline, sceneIndexAt } from "./timeline";
+import type { SceneTransition, TextAnimation, TextAnimations } from "./types";
+
+// Transitions straddle the cut: they start half their length before it and finish half after it.
+export const TRANSITION_SECONDS = 0.6;
+export const TEXT_ANIMATION_SECONDS = 0.5;
+// How much a still image zooms in over its scene.
+const STILL_IMAGE_ZOOM = 0.12;
+
+export const HARD_CUT: SceneTransition = { kind: 'cut', color: '#000000' };
+export const NO_TEXT_ANIMATION: TextAnimations = { enter: 'none', exit: 'none' };
+
+// One clip in a frame. Preview and export both draw these, so they move identically.
+export type FrameLayer = {
+    sceneIndex: number;
+    // Time within the layer's scene: negative before the scene starts, past its duration after it ends.
+    sceneTime: number;
+    opacity: number;
+    // Horizontal shift as a fraction of the frame width.
+    offsetX: number;
+    // Zoom around the frame's centre.
+    scale: number;
+};
+
+export type FrameComposition = {
+    // The scene whose on-screen text is showing.
+    sceneIndex: number;
+    sceneTime: number;
+    // Clips from bottom to top.
+    layers: FrameLayer[];
+    // Solid colour over the clips and text while dipping between scenes.
+    dip: { color: string; opacity: number } | null;
+};
+
+// Everything the renderers need to draw a scene's on-screen text at one moment.
+export type TextFrame = {
+    text: string;
+    // Characters revealed so far; the rest keep their place in the line but aren't drawn.
+    visibleLength: number;
+    opacity: number;
+    scale: number;
+};
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+const smoothstep = (t: number) => t * t * (3 - 2 * t);
+
+// Overshoots slightly before settling at 1, for the 'pop' text animation.
+function easeOutBack(t: number): number {
+    const overshoot = 1.70158;
+    return 1 + (overshoot + 1) * (t - 1) ** 3 + overshoot * (t - 1) ** 2;
+}
+
+// Shortened so a transition never takes more than half of either scene it joins.
+function transitionSeconds(timeline: Timeline, from: number): number {
+    const { scenes } = timeline;
+    return Math.min(TRANSITION_SECONDS, scenes[from].duration, scenes[from + 1].duration);
+}
+
+function layer(timeline: Timeline, sceneIndex: number, time: number, changes: Partial<FrameLayer> = {}): FrameLayer {
+    return { sceneIndex, sceneTime: time - timeline.scenes[sceneIndex].start, opacity: 1, offsetX: 0, scale: 1, ...changes };
+}
+
+/**
+ * Ken Burns-style motion for a scene that's a still image: a slow, steady zoom towards its focal point
+ * over the scene, so it doesn't sit dead on screen next to video clips.
+ */
+export function stillImageScale(sceneTime: number, sceneDuration: number): number {
+    return 1 + STILL_IMAGE_ZOOM * clamp01(sceneTime / sceneDuration);
+}
+
+/**
+ * Works out which clips are on screen at `time` and how they're placed. `transitions[i]` joins scene
+ * `i` to scene `i + 1`; a missing entry is a hard cut.
+ */
+export function composeFrame(timeline: Timeline, transitions: (SceneTransition | undefined)[], time: number): FrameComposition {
+    const sceneIndex = sceneIndexAt(timeline, time);
+    const composition: FrameComposition = {
+        sceneIndex,
+        sceneTime: time - timeline.scenes[sceneIndex].start,
+        layers: [layer(timeline, sceneIndex, time)],
+        dip: null,
+    };
+
+    for (const from of [sceneIndex, sceneIndex - 1]) {
+        const transition = transitions[from];
+        if (from < 0 || from + 1 >= timeline.scenes.length || !transition || transition.kind === 'cut') continue;
+        const seconds = transitionSeconds(timeline, from);
+        const linear = (time - timeline.scenes[from + 1].start) / seconds + 0.5;
+        if (linear < 0 || linear >= 1) continue;
+
+        const progress = smoothstep(linear);
+        const outgoing = (changes: Partial<FrameLayer> = {}) => layer(timeline, from, time, changes);
+        const incoming = (changes: Partial<FrameLayer> = {}) => layer(timeline, from + 1, time, changes);
+        switch (transition.kind) {
+            case 'crossfade':
+                composition.layers = [outgoing(), incoming({ opacity: progress })];
+                break;
+            case 'slide':
+                composition.layers = [outgoing({ offsetX: -progress }), incoming({ offsetX: 1 - progress })];
+                break;
+            case 'zoom':
+                composition.layers = [
+                    outgoing({ scale: 1 + progress * 0.3 }),
+                    incoming({ opacity: progress, scale: 1.3 - progress * 0.3 }),
+                ];
+                break;
+            case 'dip':
+                // Fully covered at the cut, so only one clip is ever needed.
+                composition.layers = [linear < 0.5 ? outgoing() : incoming()];
+                composition.dip = { color: transition.color, opacity: 1 - Math.abs(progress * 2 - 1) };
+                break;
+        }
+        break;
+    }
+    return composition;
+}
+
+// Index just past the end of each word, for revealing text a word at a time.
+function wordEnds(text: string): number[] {
+    return Array.from(text.matchAll(/\S+/g), match => match.index! + match[0].length);
+}
+
+function applyTextAnimation(frame: TextFrame, animation: TextAnimation, progress: number): TextFrame {
+    switch (animation) {
+        case 'fade':
+            return { ...frame, opacity: frame.opacity * progress };
+        case 'pop':
+            return { ...frame, opacity: frame.opacity * clamp01(progress * 2), scale: frame.scale * easeOutBack(progress) };
+        case 'typewriter':
+            return { ...frame, visibleLength: Math.min(frame.visibleLength, Math.round(frame.text.length * progress)) };
+        case 'words': {
+            const ends = wordEnds(frame.text);
+            const shown = Math.ceil(ends.length * progress);
+            return { ...frame, visibleLength: Math.min(frame.visibleLength, shown ? ends[shown - 1] : 0) };
+        }
+        default:
+            return frame;
+    }
+}
+
+/**
+ * On-screen text at `sceneTime`: the entrance plays from the start of the scene, the exit runs in
+ * reverse into its end.
+ */
+export function animateText(text: string, animations: TextAnimations | undefined, sceneTime: number, sceneDuration: number): TextFrame {
+    const { enter, exit } = animations ?? NO_TEXT_ANIMATION;
+    const seconds = Math.min(TEXT_ANIMATION_SECONDS, sceneDuration / 2);
+    const entered = applyTextAnimation({ text, visibleLength: text.length, opacity: 1, scale: 1 }, enter, clamp01(sceneTime / seconds));
+    return applyTextAnimation(entered, exit, clamp01((sceneDuration - sceneTime) / seconds));
+}
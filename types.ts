@@ -0,0 +1,268 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export type AssetStatus = 'ready' | 'generating' | 'complete' | 'failed';
+
+export type ImageVariant = {
+    imageUrl: string;
+    imageB64: string;
+    // Of `imageB64`; missing from takes saved before it was recorded, which were all PNGs.
+    imageMimeType?: string;
+    createdAt: number;
+};
+
+export type VideoVariant = {
+    videoBlob: Blob;
+    videoUrl?: string;
+    createdAt: number;
+};
+
+// When a word is spoken, in seconds from the start of its voiceover clip.
+export type WordTiming = {
+    word: string;
+    start: number;
+    end: number;
+};
+
+export type VoiceoverVariant = {
+    audioBlob: Blob;
+    audioUrl?: string;
+    // Word timings reported by the speech provider; estimated from the clip length when missing.
+    words?: WordTiming[];
+    createdAt: number;
+};
+
+// A still or clip the user already owns, used for a scene in place of generated media.
+export type UserMedia = {
+    kind: 'image' | 'video';
+    // The uploaded file's name.
+    name: string;
+    blob: Blob;
+    url?: string;
+    // Length of the clip in seconds; 0 for images.
+    duration: number;
+    // The part of the clip that's used, in seconds from its start. Unused for images.
+    trimStart: number;
+    trimEnd: number;
+};
+
+// The top-level image/audio/video fields hold the selected take; every take is kept in the variant lists.
+export type SceneAsset = {
+    // Stays with the scene when scenes are reordered, so usage can be attributed to it.
+    id: string;
+    imageUrl?: string;
+    imageB64?: string;
+    imageMimeType?: string;
+    audioUrl?: string;
+    audioBlob?: Blob;
+    videoUrl?: string;
+    videoBlob?: Blob;
+    // Name of an in-flight Veo operation, kept so a reopened campaign can resume polling it.
+    videoOperationName?: string;
+    imageVariants?: ImageVariant[];
+    videoVariants?: VideoVariant[];
+    voVariants?: VoiceoverVariant[];
+    imageStatus: AssetStatus;
+    voStatus: AssetStatus;
+    videoStatus: AssetStatus;
+    // When set, the scene shows this instead of its generated image and video, and the image and video
+    // batches skip it. Generated takes are kept in case it's removed again.
+    userMedia?: UserMedia;
+};
+
+export type VoiceSettings = {
+    voiceId: string;
+    stability: number;
+    similarityBoost: number;
+    style: number;
+};
+
+export type AspectRatio = '9:16' | '1:1' | '4:5' | '16:9';
+
+// Point of interest in a scene's visual, as fractions of its width and height; crops keep it in frame.
+export type FocalPoint = {
+    x: number;
+    y: number;
+};
+
+// What a scene's clip does when it is shorter than the scene's voiceover.
+export type VideoFit = 'loop' | 'freeze';
+
+// How one scene hands over to the next. 'dip' fades through `color` (a hex colour).
+export type TransitionKind = 'cut' | 'crossfade' | 'slide' | 'zoom' | 'dip';
+
+export type SceneTransition = {
+    kind: TransitionKind;
+    color: string;
+};
+
+// Entrance and exit effects for a scene's on-screen text.
+export type TextAnimation = 'none' | 'fade' | 'pop' | 'typewriter' | 'words';
+
+export type TextAnimations = {
+    enter: TextAnimation;
+    exit: TextAnimation;
+};
+
+// Veo 2 only animates images with adults in them, or with no people at all.
+export type PersonGeneration = 'allow_adult' | 'dont_allow';
+
+// How a scene's clips are generated. The aspect ratio isn't a setting: it follows the campaign's format.
+export type VideoSettings = {
+    durationSeconds: number;
+    // What the clip should avoid, e.g. "text, cartoon, blurry".
+    negativePrompt: string;
+    personGeneration: PersonGeneration;
+    // The same seed, prompt and image give the same clip; null picks a random one each time.
+    seed: number | null;
+    // Clips generated per request. Every one is kept as a take so the best can be selected.
+    takes: number;
+};
+
+export type CampaignInputs = {
+    productDesc: string;
+    targetAudience: string;
+    // The campaign's main format, used for generation and the preview. Exports can add others.
+    format: AspectRatio;
+    scenesWanted: number;
+    watermarkText: string;
+    // Language the voiceover and on-screen text are written in.
+    language: string;
+    voice: VoiceSettings;
+    videoFit: VideoFit;
+    video: VideoSettings;
+    // Burn word-timed voiceover captions into the preview and the exported video.
+    captions: boolean;
+};
+
+// A campaign's background music. The audio itself is kept with the campaign so it survives
+// the track being removed from the music library.
+export type MusicBed = {
+    trackId: string;
+    name: string;
+    blob: Blob;
+    // Music level while no voiceover is playing, 0-1.
+    volume: number;
+};
+
+// A photo of the real product (or a person, place or prop) that scenes send to the image model so it
+// shows what's actually there instead of inventing it.
+export type ReferenceImage = {
+    id: string;
+    // The uploaded file's name, used to describe the photo in prompts.
+    name: string;
+    base64: string;
+    mimeType: string;
+};
+
+export type Corner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export type TextStyle = 'outline' | 'box' | 'shadow';
+
+// Copy rules from the brand's legal team, checked before anything is generated. Each entry is a word or
+// phrase, optionally followed by "=> rewrite" to suggest a replacement.
+export type BrandRules = {
+    bannedWords: string[];
+    // Claims that need substantiation, on top of the built-in list.
+    claims: string[];
+    // Text that has to appear in the ad and in every post.
+    disclaimers: string[];
+    competitors: string[];
+};
+
+// Look applied to overlays, watermarks and the end card. Campaigns keep their own copy of a kit.
+export type BrandKit = {
+    id: string;
+    name: string;
+    // On-screen text and tagline colour.
+    primaryColor: string;
+    // Outline, box or shadow behind on-screen text.
+    secondaryColor: string;
+    // Highlighted caption word.
+    accentColor: string;
+    // Uploaded font file; null uses the app font.
+    font: { name: string; blob: Blob } | null;
+    textStyle: TextStyle;
+    logoPosition: Corner;
+    // Logo width as a fraction of the safe area's width.
+    logoScale: number;
+    watermarkPosition: Corner;
+    watermarkOpacity: number;
+    endCardColor: string;
+    tagline: string;
+    rules: BrandRules;
+};
+
+// Closing frame shown after the last scene, in the preview and the export.
+export type EndCard = {
+    cta: string;
+    url: string;
+    // Show a QR code that opens `url`.
+    showQrCode: boolean;
+    offer: string;
+    // 'brand' uses the brand kit's end card colour.
+    background: 'brand' | 'color' | 'image';
+    backgroundColor: string;
+    backgroundImage: Blob | null;
+    // In seconds; 0 leaves the end card out.
+    duration: number;
+};
+
+export type Platform = 'tiktok' | 'reels' | 'shorts' | 'facebook' | 'linkedin' | 'x';
+
+// Post copy written for one platform.
+export type PlatformCopy = {
+    platform: Platform;
+    // Only YouTube Shorts has a separate title; empty elsewhere.
+    title: string;
+    // Alternative opening lines for the top of the post.
+    hooks: string[];
+    caption: string;
+    longCaption: string;
+    // Alternative calls to action.
+    ctas: string[];
+    hashtags: string[];
+};
+
+export type PostCopy = {
+    platforms: PlatformCopy[];
+};
+
+// A single caption and hashtag list, as saved before copy was written per platform.
+export type LegacyPostCopy = {
+    caption: string;
+    hashtags: string[];
+};
+
+export type CreativeAngle = 'problem-solution' | 'testimonial' | 'unboxing' | 'humor' | 'before-after' | 'lifestyle';
+
+// Which storyboard variant a campaign was built from, so ad-set tests can tell them apart.
+export type CampaignVariant = {
+    // "A", "B"... for a single variant; scene picks such as "A1B3C2" for a mix of variants.
+    label: string;
+    // The angle the variant was written for; null for a mix.
+    angle: CreativeAngle | null;
+};
+
+// One slot in a template's storyboard structure. The voiceover and visual are guidance for the model,
+// not text to copy.
+export type TemplateScene = {
+    // What the scene does in the ad, e.g. "Hook", "Benefit", "Proof", "CTA".
+    role: string;
+    voiceover: string;
+    visual: string;
+};
+
+// A reusable starting point for new campaigns: form defaults, a scene structure and brand styling.
+export type CampaignTemplate = {
+    id: string;
+    name: string;
+    // Only the fields the template sets; the rest of the form is left as it is.
+    inputs: Partial<Omit<CampaignInputs, 'productDesc'>>;
+    scenes: TemplateScene[];
+    // Null leaves the campaign's brand kit alone.
+    brandKit: BrandKit | null;
+    createdAt: number;
+};
@@ -0,0 +1,144 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export type UsageKind = 'text' | 'image' | 'video' | 'speech';
+
+export type UsageOutcome = 'success' | 'failed' | 'cancelled';
+
+// What a request consumed, in the units its model is billed by. Empty for requests that weren't billed.
+export type UsageUnits = {
+    inputTokens?: number;
+    outputTokens?: number;
+    // Seconds of generated video.
+    seconds?: number;
+    // Characters of speech.
+    characters?: number;
+};
+
+// One provider request. Cost isn't stored: it's worked out from the current price table whenever it's shown.
+export type UsageRecord = {
+    id: string;
+    // Null until the campaign exists, e.g. for the storyboard request that creates it.
+    campaignId: string | null;
+    // The scene asset the request was made for; null for campaign-wide requests such as post copy.
+    sceneId: string | null;
+    kind: UsageKind;
+    model: string;
+    units: UsageUnits;
+    durationMs: number;
+    outcome: UsageOutcome;
+    createdAt: number;
+};
+
+// How many requests may run at once against each provider, e.g. to stay under a plan's rate limits.
+export type ConcurrencyLimits = Record<UsageKind, number>;
+
+export const DEFAULT_CONCURRENCY: ConcurrencyLimits = { text: 3, image: 3, video: 2, speech: 3 };
+export const MAX_CONCURRENCY = 8;
+
+// USD. Token prices are per million tokens, video per second and speech per thousand characters.
+export type ModelPrice = {
+    inputTokens?: number;
+    outputTokens?: number;
+    seconds?: number;
+    characters?: number;
+};
+
+export type PriceTable = Record<string, ModelPrice>;
+
+// List prices when this was written; edit them in the app to match your plan.
+export const DEFAULT_PRICES: PriceTable = {
+    'gemini-2.5-flash': { inputTokens: 0.30, outputTokens: 2.50 },
+    // Each generated image is billed as 1290 output tokens.
+    'gemini-2.5-flash-image-preview': { inputTokens: 0.30, outputTokens: 30 },
+    'veo-2.0-generate-001': { seconds: 0.35 },
+    'eleven_multilingual_v2': { characters: 0.30 },
+};
+
+export const USAGE_LABELS: Record<UsageKind, string> = {
+    text: 'Storyboards & copy',
+    image: 'Images',
+    video: 'Videos',
+    speech: 'Voiceovers',
+};
+
+// The prices each kind of model is billed by, as edited in the price table.
+export const PRICE_FIELDS: Record<UsageKind, { field: keyof ModelPrice; label: string }[]> = {
+    text: [{ field: 'inputTokens', label: 'input $/1M tokens' }, { field: 'outputTokens', label: 'output $/1M tokens' }],
+    image: [{ field: 'inputTokens', label: 'input $/1M tokens' }, { field: 'outputTokens', label: 'output $/1M tokens' }],
+    video: [{ field: 'seconds', label: '$/second' }],
+    speech: [{ field: 'characters', label: '$/1k characters' }],
+};
+
+// Rough units for one request, used to estimate a batch before it runs. Speech is estimated from its text.
+const TYPICAL_UNITS: Record<Exclude<UsageKind, 'speech'>, UsageUnits> = {
+    text: { inputTokens: 1500, outputTokens: 1000 },
+    image: { inputTokens: 600, outputTokens: 1290 },
+    // Veo 2 clips run for up to eight seconds.
+    video: { seconds: 8 },
+};
+
+const UNIT_SCALE: Record<keyof UsageUnits, number> = {
+    inputTokens: 1_000_000,
+    outputTokens: 1_000_000,
+    seconds: 1,
+    characters: 1000,
+};
+
+// Null when the model has no price, so it can be shown as unknown rather than free.
+export function usageCost(model: string, units: UsageUnits, prices: PriceTable): number | null {
+    const price = prices[model];
+    if (!price) return null;
+    return (Object.keys(UNIT_SCALE) as (keyof UsageUnits)[])
+        .reduce((total, unit) => total + (units[unit] ?? 0) / UNIT_SCALE[unit] * (price[unit] ?? 0), 0);
+}
+
+export function estimateRequestCost(kind: UsageKind, model: string, prices: PriceTable, text = ''): number {
+    const units = kind === 'speech' ? { characters: [...text].length } : TYPICAL_UNITS[kind];
+    return usageCost(model, units, prices) ?? 0;
+}
+
+export type UsageSummary = {
+    total: number;
+    requests: number;
+    failed: number;
+    // Requests whose model has no price; they're left out of the totals.
+    unpriced: number;
+    byKind: Record<UsageKind, { requests: number; cost: number }>;
+    bySceneId: Map<string, number>;
+};
+
+export function summarizeUsage(records: UsageRecord[], prices: PriceTable): UsageSummary {
+    const summary: UsageSummary = {
+        total: 0, requests: records.length, failed: 0, unpriced: 0,
+        byKind: { text: { requests: 0, cost: 0 }, image: { requests: 0, cost: 0 }, video: { requests: 0, cost: 0 }, speech: { requests: 0, cost: 0 } },
+        bySceneId: new Map(),
+    };
+    for (const record of records) {
+        const cost = usageCost(record.model, record.units, prices);
+        if (record.outcome === 'failed') summary.failed++;
+        if (cost === null) summary.unpriced++;
+        summary.total += cost ?? 0;
+        summary.byKind[record.kind].requests++;
+        summary.byKind[record.kind].cost += cost ?? 0;
+        if (record.sceneId) summary.bySceneId.set(record.sceneId, (summary.bySceneId.get(record.sceneId) ?? 0) + (cost ?? 0));
+    }
+    return summary;
+}
+
+export function formatCost(usd: number): string {
+    if (usd > 0 && usd < 0.01) return '<$0.01';
+    return `$${usd.toFixed(2)}`;
+}
+
+export function formatUnits(units: UsageUnits): string {
+    const parts: string[] = [];
+    if (units.inputTokens || units.outputTokens) {
+        parts.push(`${(units.inputTokens ?? 0).toLocaleString()} in / ${(units.outputTokens ?? 0).toLocaleString()} out tokens`);
+    }
+    if (units.seconds) parts.push(`${units.seconds.toFixed(1)}s of video`);
+    if (units.characters) parts.push(`${units.characters.toLocaleString()} characters`);
+    return parts.join(', ') || '—';
+}
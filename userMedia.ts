@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { measureMediaDuration } from "./timeline";
+import type { UserMedia } from "./types";
+
+// Trimming never leaves less than this much of a clip.
+export const MIN_TRIM_SECONDS = 0.5;
+
+export class UserMediaError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UserMediaError';
+    }
+}
+
+/**
+ * Reads an uploaded image or clip for a scene, untrimmed. Throws UserMediaError with a message fit to
+ * show the user when the browser can't play the file.
+ */
+export async function readUserMedia(file: File): Promise<UserMedia> {
+    const kind = file.type.startsWith('video/') ? 'video' : file.type.startsWith('image/') ? 'image' : null;
+    if (!kind) throw new UserMediaError(`"${file.name}" is not an image or a video.`);
+
+    const url = URL.createObjectURL(file);
+    try {
+        let duration = 0;
+        if (kind === 'video') {
+            duration = await measureMediaDuration(url, 'video');
+        } else {
+            const image = new Image();
+            image.src = url;
+            await image.decode();
+        }
+        if (kind === 'video' && duration < MIN_TRIM_SECONDS) throw new UserMediaError(`"${file.name}" is too short to use.`);
+        return { kind, name: file.name, blob: file, duration, trimStart: 0, trimEnd: duration };
+    } catch (error) {
+        if (error instanceof UserMediaError) throw error;
+        throw new UserMediaError(`"${file.name}" couldn't be read. Try a PNG or JPEG image, or an MP4 or WebM clip.`);
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+}
+
+// Keeps trim points inside the clip and at least MIN_TRIM_SECONDS apart; `changed` says which one to move if they clash.
+export function clampTrim(media: UserMedia, trimStart: number, trimEnd: number, changed: 'start' | 'end'): Pick<UserMedia, 'trimStart' | 'trimEnd'> {
+    const gap = Math.min(MIN_TRIM_SECONDS, media.duration);
+    let start = Math.min(Math.max(0, trimStart), media.duration - gap);
+    let end = Math.max(Math.min(media.duration, trimEnd), gap);
+    if (end - start < gap) {
+        if (changed === 'start') end = start + gap;
+        else start = end - gap;
+    }
+    return { trimStart: start, trimEnd: end };
+}
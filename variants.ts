@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Storyboard } from "./storyboard";
+import type { CampaignVariant, CreativeAngle } from "./types";
+
+export const CREATIVE_ANGLES: Record<CreativeAngle, { label: string; brief: string }> = {
+    'problem-solution': {
+        label: 'Problem / solution',
+        brief: 'Open on a frustrating, relatable problem the audience has, then show the product solving it.',
+    },
+    testimonial: {
+        label: 'Testimonial',
+        brief: 'Told by a happy customer speaking to camera in their own words, authentic rather than polished.',
+    },
+    unboxing: {
+        label: 'Unboxing',
+        brief: 'A first-person unboxing: the packaging, the first look and the first use, building anticipation.',
+    },
+    humor: {
+        label: 'Humor',
+        brief: 'A light, funny skit with a comedic twist that still makes the product the hero.',
+    },
+    'before-after': {
+        label: 'Before / after',
+        brief: 'Contrast life before the product with life after it, making the change unmistakable.',
+    },
+    lifestyle: {
+        label: 'Lifestyle',
+        brief: 'Aspirational everyday moments showing who the product is for and how it fits into their life.',
+    },
+};
+
+// A storyboard written for one creative angle, kept with every campaign built from the comparison.
+export type StoryboardVariant = {
+    label: string;
+    angle: CreativeAngle;
+    storyboard: Storyboard;
+};
+
+// A scene chosen for a mixed storyboard: indexes into the variant list and that variant's scenes.
+export type VariantPick = {
+    variant: number;
+    scene: number;
+};
+
+export function variantLabel(index: number): string {
+    return String.fromCharCode(65 + index);
+}
+
+// "Variant B · Testimonial", as shown in the UI and given to the post copy prompt.
+export function describeVariant(variant: CampaignVariant): string {
+    return `Variant ${variant.label} · ${variant.angle ? CREATIVE_ANGLES[variant.angle].label : 'Mix'}`;
+}
+
+/**
+ * Builds a storyboard from scenes picked across variants, in pick order. The label lists the picks
+ * ("A1B3C2") so two different mixes are never reported as the same ad.
+ */
+export function mergeVariantScenes(variants: StoryboardVariant[], picks: VariantPick[]): { storyboard: Storyboard; variant: CampaignVariant } {
+    const scenes = picks.map(({ variant, scene }, index) => ({ ...variants[variant].storyboard.scenes[scene], id: index + 1 }));
+    return {
+        storyboard: { scenes },
+        variant: { label: picks.map(({ variant, scene }) => `${variants[variant].label}${scene + 1}`).join(''), angle: null },
+    };
+}
+
+// Tags a link with the variant so clicks from each ad in the test can be told apart in analytics.
+export function trackVariantUrl(href: string, variant: CampaignVariant | null): string {
+    if (!variant) return href;
+    const url = new URL(href);
+    url.searchParams.set('utm_content', `variant_${variant.label.toLowerCase()}`);
+    return url.href;
+}
@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { VideoOptions } from "./providers";
+import type { AspectRatio, PersonGeneration, VideoSettings } from "./types";
+
+// Veo 2's limits.
+export const MIN_VIDEO_SECONDS = 5;
+export const MAX_VIDEO_SECONDS = 8;
+export const MAX_VIDEO_TAKES = 2;
+// Veo seeds are unsigned 32-bit integers.
+export const MAX_SEED = 2 ** 32 - 1;
+
+export const DEFAULT_VIDEO_SETTINGS: VideoSettings = {
+    durationSeconds: MAX_VIDEO_SECONDS,
+    negativePrompt: '',
+    personGeneration: 'allow_adult',
+    seed: null,
+    takes: 1,
+};
+
+export const PERSON_GENERATION_LABELS: Record<PersonGeneration, string> = {
+    allow_adult: 'Adults only',
+    dont_allow: 'No people',
+};
+
+function numberChoices(min: number, max: number, label: (value: number) => string): Record<string, string> {
+    return Object.fromEntries(Array.from({ length: max - min + 1 }, (_, i) => [String(min + i), label(min + i)]));
+}
+
+// The settings picked from a list, as value => label.
+export const VIDEO_SETTING_CHOICES: Record<'durationSeconds' | 'personGeneration' | 'takes', Record<string, string>> = {
+    durationSeconds: numberChoices(MIN_VIDEO_SECONDS, MAX_VIDEO_SECONDS, seconds => `${seconds}s`),
+    personGeneration: PERSON_GENERATION_LABELS,
+    takes: numberChoices(1, MAX_VIDEO_TAKES, String),
+};
+
+// An empty seed field means a random seed each time.
+export function parseSeed(value: string): number | null {
+    if (!value.trim()) return null;
+    const seed = Math.trunc(Number(value));
+    return Number.isFinite(seed) ? Math.min(MAX_SEED, Math.max(0, seed)) : null;
+}
+
+// Veo only makes landscape and portrait clips. Square and 4:5 formats are cropped from portrait ones,
+// which keeps more of a 4:5 frame and as much of a square one.
+export function veoAspectRatio(format: AspectRatio): VideoOptions['aspectRatio'] {
+    return format === '16:9' ? '16:9' : '9:16';
+}
+
+function clampInteger(value: number, min: number, max: number): number {
+    return Math.min(max, Math.max(min, Math.round(value) || min));
+}
+
+/**
+ * The request options for a scene's clips. Values outside Veo's limits (from an edited campaign file, or
+ * a limit that has since changed) are brought back into range rather than failing the request.
+ */
+export function videoOptions(settings: VideoSettings, format: AspectRatio): VideoOptions {
+    return {
+        aspectRatio: veoAspectRatio(format),
+        durationSeconds: clampInteger(settings.durationSeconds, MIN_VIDEO_SECONDS, MAX_VIDEO_SECONDS),
+        negativePrompt: settings.negativePrompt.trim() || undefined,
+        personGeneration: settings.personGeneration,
+        seed: settings.seed ?? undefined,
+        numberOfVideos: clampInteger(settings.takes, 1, MAX_VIDEO_TAKES),
+    };
+}
@@ -3,11 +3,21 @@ import { defineConfig, loadEnv } from 'vite';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    const providerMode = env.PROVIDER_MODE || 'live';
+    // Only direct (live) mode calls the APIs from the browser; in proxy mode the keys stay with the server.
+    const clientKey = (key: string | undefined) => providerMode === 'live' ? JSON.stringify(key) : 'undefined';
     return {
       define: {
-  'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-  'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-  'process.env.ELEVEN_LABS_API_KEY': JSON.stringify(env.ELEVEN_LABS_API_KEY)
+  'process.env.API_KEY': clientKey(env.GEMINI_API_KEY),
+  'process.env.GEMINI_API_KEY': clientKey(env.GEMINI_API_KEY),
+  'process.env.ELEVEN_LABS_API_KEY': clientKey(env.ELEVEN_LABS_API_KEY),
+  'process.env.PROVIDER_MODE': JSON.stringify(providerMode)
+      },
+      server: {
+        // `npm run server` handles /api in proxy mode.
+        proxy: {
+          '/api': `http://localhost:${env.PROXY_PORT || 8787}`,
+        },
       },
       resolve: {
         alias: {